@@ -1,8 +1,6 @@
 import "dotenv/config";
-import { buildMultiSwapTxV0, execute } from "../src";
+import { buildMultiSwapTxV0, execute, getSettlementReport, getTransactionCosts } from "../src";
 import { Connection, VersionedTransaction } from "@solana/web3.js";
-import bs58 from "bs58";
-import { Buffer } from "buffer";
 
 const SOL = "So11111111111111111111111111111111111111112";
 const RPC = process.env.SOLANA_RPC ?? "https://api.mainnet-beta.solana.com";
@@ -22,8 +20,6 @@ type BenchRow = {
   rentLamports?: bigint;
 };
 
-const LAMPORTS_PER_SIG = 5_000n;
-
 function lamportsToSOL(l: bigint) {
   return Number(l) / 1e9;
 }
@@ -46,121 +42,21 @@ function dumpInstructions(label: string, tx: VersionedTransaction) {
 }
 
 
-/**
- * Extract the compute unit price (µLamports per CU) from transaction instructions.
- */
-function extractCuPriceMicroFromTxResponse(tx: any): bigint | undefined {
-  try {
-    const msg = tx.transaction.message;
-    const keys: string[] = msg.accountKeys.map((k: any) =>
-      typeof k === "string" ? k : (k.pubkey ?? k.toString?.() ?? "")
-    );
-    const CB = "ComputeBudget111111111111111111111111111111";
-    const cbIdx = keys.findIndex((k) => k === CB);
-    if (cbIdx < 0) return undefined;
-
-    let lastPrice: bigint | undefined;
-    const instrs = msg.instructions ?? [];
-    for (const ix of instrs) {
-      if (ix.programIdIndex !== cbIdx) continue;
-      const dataStr: string = ix.data;
-      let raw: Buffer | undefined;
-      try {
-        raw = Buffer.from(bs58.decode(dataStr) as Uint8Array);
-      } catch {
-        try {
-          raw = Buffer.from(dataStr, "base64");
-        } catch {
-          continue;
-        }
-      }
-      if (!raw || raw.length < 2) continue;
-      const tag = raw[0];
-      if (raw.length >= 9 && (tag === 3 || tag === 4)) {
-        const price = raw.readBigUInt64LE(1);
-        if (price > 0n) lastPrice = price;
-      }
-    }
-    return lastPrice;
-  } catch {
-    return undefined;
-  }
-}
-
-/**
- * Compute rent cost (lamports locked for new accounts created in the transaction).
- */
-async function computeRentLamportsFromParsed(sig: string): Promise<bigint> {
-  const parsed = await connection.getParsedTransaction(sig, {
-    commitment: "confirmed",
-    maxSupportedTransactionVersion: 0,
-  });
-  if (!parsed?.meta?.innerInstructions) return 0n;
-
-  let rent = 0n;
-  for (const inner of parsed.meta.innerInstructions) {
-    for (const ix of inner.instructions as any[]) {
-      const programId = ix.programId?.toString?.() ?? ix.programId ?? "";
-      if (programId === "11111111111111111111111111111111" || ix.program === "system") {
-        const t = ix.parsed?.type;
-        if (t === "createAccount" || t === "createAccountWithSeed") {
-          const lamports = BigInt(ix.parsed?.info?.lamports ?? 0);
-          rent += lamports;
-        }
-      }
-    }
-  }
-  return rent;
-}
-
-/**
- * Poll until a transaction is available on-chain.
- */
-async function waitForTx(signature: string, retries = 20, delayMs = 1500) {
-  for (let i = 0; i < retries; i++) {
-    const tx = await connection.getTransaction(signature, {
-      commitment: "confirmed",
-      maxSupportedTransactionVersion: 0,
-    });
-    if (tx) return tx;
-    await new Promise((r) => setTimeout(r, delayMs));
-  }
-  throw new Error(`Transaction not found after waiting: ${signature}`);
-}
-
 /**
  * Analyze an executed transaction and return fee breakdown.
  */
 async function analyzeExecuted(signature: string): Promise<BenchRow> {
-  const tx = await waitForTx(signature);
-  if (!tx) throw new Error(`Transaction not found: ${signature}`);
-
-  const meta = tx.meta!;
-  const totalFee = BigInt(meta.fee ?? 0);
-  const cu = (meta as any).computeUnitsConsumed ?? 0;
-
-  const nbSigs = BigInt((tx.transaction.signatures?.length ?? 1));
-  let base = nbSigs * LAMPORTS_PER_SIG;
-  if (base > totalFee) base = totalFee;
-
-  const priority = totalFee > base ? totalFee - base : 0n;
-
-  let priceMicro = extractCuPriceMicroFromTxResponse(tx);
-  if (!priceMicro && cu > 0 && priority > 0n) {
-    priceMicro = (priority * 1_000_000n) / BigInt(cu);
-  }
-
-  const rent = await computeRentLamportsFromParsed(signature);
+  const costs = await getTransactionCosts(signature, { connection });
 
   return {
     label: "",
     signature,
-    cu,
-    cuPriceMicro: priceMicro,
-    priorityFeeLamports: priority,
-    baseFeeLamports: base,
-    totalFeeLamports: totalFee,
-    rentLamports: rent,
+    cu: costs.computeUnitsConsumed ?? 0,
+    cuPriceMicro: costs.computeUnitPrice !== undefined ? BigInt(costs.computeUnitPrice) : undefined,
+    priorityFeeLamports: BigInt(costs.priorityFee),
+    baseFeeLamports: BigInt(costs.baseFee),
+    totalFeeLamports: BigInt(costs.fee),
+    rentLamports: BigInt(costs.rent),
   };
 }
 
@@ -188,10 +84,11 @@ function printRow(label: string, r: BenchRow) {
 async function runOnce(user: string, routes: any[]) {
   try {
     // Build the bundled multi-route transaction
-    const { unsignedTx: multiTx } = await buildMultiSwapTxV0({
+    const multiBuild = await buildMultiSwapTxV0({
       routes,
       userPublicKey: user,
     });
+    const multiTx = multiBuild.unsignedTx;
 
     // Debug-only mode: dump instructions without execution
     if (DEBUG_SIMULATE) {
@@ -203,10 +100,21 @@ async function runOnce(user: string, routes: any[]) {
     }
 
     // Execute the bundled transaction on-chain
-    const sigMulti = await execute(multiTx);
+    const { signature: sigMulti } = await execute(multiTx, { connection });
     const multi = await analyzeExecuted(sigMulti);
     multi.label = "MULTI";
 
+    // Realized fills vs quotes, per route
+    const settlement = await getSettlementReport(sigMulti, multiBuild, { connection });
+    console.table(
+      settlement.routes.map((r) => ({
+        route: r.index,
+        quotedOut: r.quotedOut,
+        actualOut: r.actualOut,
+        slippageBps: r.slippageBps,
+      }))
+    );
+
     // Execute each route as a standalone transaction for comparison
     const singles: BenchRow[] = [];
      
@@ -215,7 +123,7 @@ async function runOnce(user: string, routes: any[]) {
         routes: [routes[i]],
         userPublicKey: user,
       });
-      const sig = await execute(singleTx);
+      const { signature: sig } = await execute(singleTx, { connection });
       const row = await analyzeExecuted(sig);
       row.label = `SINGLE[${i}]`;
       singles.push(row);
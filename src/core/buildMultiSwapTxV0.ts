@@ -1,41 +1,165 @@
-import { BuildMultiSwapParams, BuildMultiSwapResult, StepContext } from "../types.js";
+import {
+  BuildMultiSwapParams,
+  BuildMultiSwapResult,
+  MultiRouteInput,
+  SizeAttempt,
+  StepContext,
+} from "../types.js";
+import { runSteps, Step } from "./pipeline/Step.js";
+import { ValidateRoutesStep } from "./pipeline/ValidateRoutesStep.js";
 import { NormalizeRoutesStep } from "./pipeline/NormalizeRoutesStep.js";
+import { PreflightBalanceStep } from "./pipeline/PreflightBalanceStep.js";
 import { WrapSolStep } from "./pipeline/WrapSolStep.js";
+import { PlatformFeeStep } from "./pipeline/PlatformFeeStep.js";
+import { QuoteStep } from "./pipeline/QuoteStep.js";
 import { SwapStep } from "./pipeline/SwapStep.js";
 import { AssembleInstructionsStep } from "./pipeline/AssembleInstructionsStep.js";
+import { ComputeUnitLimitStep } from "./pipeline/ComputeUnitLimitStep.js";
+import { PriorityFeeStep } from "./pipeline/PriorityFeeStep.js";
 import { ResolveAltStep } from "./pipeline/ResolveAltStep.js";
+import { BalanceCheckStep } from "./pipeline/BalanceCheckStep.js";
 import { FinalizeTxStep } from "./pipeline/FinalizeTxStep.js";
-import { JupiterProvider } from "./providers/JupiterProvider.js";
+import { createStepContext, SOL } from "./context.js";
+import { simulate } from "./simulate.js";
+import { describeSimulationFailure } from "./simulationReport.js";
+import { DEFAULT_MIN_MAX_ACCOUNTS, nextRequote, routeAccountUsage } from "./sizeFit.js";
+import {
+  InvalidParamsError,
+  rpcCall,
+  SimulationFailedError,
+  TransactionTooLargeError,
+} from "../errors.js";
 
-export async function buildMultiSwapTxV0(params: BuildMultiSwapParams): Promise<BuildMultiSwapResult> {
-  const SOL = "So11111111111111111111111111111111111111112";
-  const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
-
-  const ctx: StepContext = {
-    routes: params.routes,
-    provider: new JupiterProvider(),
-    userPublicKey: params.userPublicKey,
-    onRouteNotFound: params.onRouteNotFound ?? "skip",
-    skipped: [],
-    swapPayloads: [],
-    wrapInstrs: [],
-    cleanupInstr: null,
-    altAccounts: [],
-    wrappedLamports: 0,
-  };
-
-  const steps = [
-    new NormalizeRoutesStep(SOL),
-    new WrapSolStep(SOL, USDC),
+/**
+ * Default pipeline, in execution order.
+ * Pass `steps` to `buildMultiSwapTxV0` to insert your own steps around these.
+ */
+export function createDefaultSteps(): Step[] {
+  return [
+    new ValidateRoutesStep(),
+    new NormalizeRoutesStep(),
+    new PreflightBalanceStep(),
+    new PlatformFeeStep(),
+    new QuoteStep(),
     new SwapStep(),
+    new WrapSolStep(SOL),
     new AssembleInstructionsStep(),
     new ResolveAltStep(),
+    new ComputeUnitLimitStep(),
+    new PriorityFeeStep(),
+    new BalanceCheckStep(),
     new FinalizeTxStep(),
   ];
+}
+
+/** Default for `maxPruneRounds` */
+const DEFAULT_MAX_PRUNE_ROUNDS = 3;
+
+/** Default for `maxRequotes` */
+const DEFAULT_MAX_REQUOTES = 8;
+
+export async function buildMultiSwapTxV0(params: BuildMultiSwapParams): Promise<BuildMultiSwapResult> {
+  const first = createStepContext(params);
+  const maxRounds = params.maxPruneRounds ?? DEFAULT_MAX_PRUNE_ROUNDS;
+  let routes = params.routes;
+  let ctx = first;
+
+  for (;;) {
+    const fitted = await runFittingPipeline(ctx, { ...params, routes });
+    const { result } = fitted;
+    // Routes tightened by re-quoting stay tightened in the rebuilds below
+    routes = fitted.routes;
+    if (!params.onSimulationFailure) return result;
+
+    const sim = await rpcCall("simulateTransaction", () =>
+      simulate(result.unsignedTx, { connection: ctx.connection })
+    );
+    if (!sim.err) return result;
+
+    const failure = describeSimulationFailure(result, sim.err, sim.logs ?? []);
+    if (
+      params.onSimulationFailure === "fail" ||
+      failure.routeIndex === undefined ||
+      ctx.pruned.length >= maxRounds
+    ) {
+      throw new SimulationFailedError(failure, sim.err);
+    }
+
+    // Drop the offending route and rebuild from scratch
+    const pruned = [
+      ...ctx.pruned,
+      { index: failure.routeIndex, reason: `${failure.reason}: ${failure.message}`, code: "SIMULATION_FAILED" },
+    ];
+    // Rebuilds reuse the resolved provider and connection
+    ctx = createStepContext({ ...params, routes, provider: first.provider, connection: first.connection });
+    ctx.pruned = pruned;
+  }
+}
+
+/**
+ * `runPipeline`, re-quoting the heaviest routes with tighter routing while the
+ * transaction is too large (`onTooLarge: "requote"`). Only the tightened route
+ * is re-quoted; the others keep their quote and swap-instructions.
+ *
+ * @returns The result, and `params.routes` with the routing tightenings applied
+ */
+async function runFittingPipeline(
+  first: StepContext,
+  params: BuildMultiSwapParams
+): Promise<{ result: BuildMultiSwapResult; routes: MultiRouteInput[] }> {
+  let routes = params.routes;
+  if (params.onTooLarge !== "requote") return { result: await runPipeline(first, params), routes };
+
+  const minMaxAccounts = params.minMaxAccounts ?? DEFAULT_MIN_MAX_ACCOUNTS;
+  const maxRequotes = params.maxRequotes ?? DEFAULT_MAX_REQUOTES;
+  const attempts: SizeAttempt[] = [];
+  let ctx = first;
+
+  for (;;) {
+    try {
+      const result = await runPipeline(ctx, params);
+      if (attempts.length > 0) {
+        attempts.push({ txSize: result.diagnostics.txSize, routes: routeAccountUsage(ctx) });
+        result.diagnostics.sizeAttempts = attempts;
+      }
+      return { result, routes };
+    } catch (e) {
+      if (!(e instanceof TransactionTooLargeError)) throw e;
+
+      const usage = routeAccountUsage(ctx);
+      const requoted =
+        attempts.length < maxRequotes ? nextRequote(routes, ctx.routing, usage, minMaxAccounts) : undefined;
+      attempts.push({ txSize: e.size, routes: usage, requoted });
+      if (!requoted) {
+        e.attempts = attempts;
+        throw e;
+      }
+
+      // Same bundle, tighter routing for one route: only that one is re-quoted
+      const { index, ...routing } = requoted;
+      routes = routes.map((r, i) => (i === index ? { ...r, ...routing } : r));
+      const reusedSwaps = new Map(
+        ctx.swapPayloads
+          .filter((p) => p.i !== index)
+          .map((p) => [p.i, { amount: ctx.routes[p.i].amount!, quote: p.quote, ixs: p.ixs }])
+      );
+      const pruned = ctx.pruned;
+      ctx = createStepContext({ ...params, routes, provider: ctx.provider, connection: ctx.connection });
+      ctx.pruned = pruned;
+      ctx.reusedSwaps = reusedSwaps;
+    }
+  }
+}
+
+async function runPipeline(ctx: StepContext, params: BuildMultiSwapParams): Promise<BuildMultiSwapResult> {
+  const defaults = createDefaultSteps();
+  const steps = params.steps ? params.steps(defaults) : defaults;
+
+  await runSteps(steps, ctx);
 
-  for (const step of steps) {
-    await step.run(ctx);
+  if (!ctx.result) {
+    throw new InvalidParamsError("Pipeline finished without a result (is FinalizeTxStep missing?)");
   }
 
-  return ctx.result!;
+  return ctx.result;
 }
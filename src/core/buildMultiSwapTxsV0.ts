@@ -0,0 +1,231 @@
+// src/core/buildMultiSwapTxsV0.ts
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  BuildMultiSwapBatchResult,
+  BuildMultiSwapParams,
+  BuildMultiSwapResult,
+  StepContext,
+} from "../types.js";
+import { ValidateRoutesStep } from "./pipeline/ValidateRoutesStep.js";
+import { NormalizeRoutesStep } from "./pipeline/NormalizeRoutesStep.js";
+import { PreflightBalanceStep } from "./pipeline/PreflightBalanceStep.js";
+import { WrapSolStep } from "./pipeline/WrapSolStep.js";
+import { PlatformFeeStep } from "./pipeline/PlatformFeeStep.js";
+import { QuoteStep } from "./pipeline/QuoteStep.js";
+import { SwapStep } from "./pipeline/SwapStep.js";
+import { AssembleInstructionsStep } from "./pipeline/AssembleInstructionsStep.js";
+import { ComputeUnitLimitStep } from "./pipeline/ComputeUnitLimitStep.js";
+import { PriorityFeeStep } from "./pipeline/PriorityFeeStep.js";
+import { ResolveAltStep } from "./pipeline/ResolveAltStep.js";
+import { checkSolBalance, isSolFundedExactOut, transactionFees } from "./pipeline/BalanceCheckStep.js";
+import { compileTx, FinalizeTxStep, MAX_TX_SIZE, txSize } from "./pipeline/FinalizeTxStep.js";
+import { runSteps } from "./pipeline/Step.js";
+import { withComputeUnitPrice } from "../utils/computeBudget.js";
+import { InvalidParamsError, TransactionTooLargeError } from "../errors.js";
+import { createStepContext, SOL } from "./context.js";
+
+/**
+ * ----------------------------------------------------------------------------
+ * buildMultiSwapTxsV0
+ * ----------------------------------------------------------------------------
+ *
+ * Same input as `buildMultiSwapTxV0`, but packs the routes into as few v0
+ * transactions as needed to stay under the packet size limit.
+ *
+ * - Routes are normalized and quoted once, ALTs are loaded once
+ * - Routes are packed greedily, in order: a route joins the current
+ *   transaction unless it would push it over the limit. Sizes are measured by
+ *   compiling locally (no network call per candidate)
+ * - Each final transaction then gets its own SOL wrap/unwrap, compute budget
+ *   and ALT set (one CU sizing and priority fee lookup per transaction)
+ * - The SOL balance is checked before quoting, as for a single transaction, then
+ *   once more for the whole batch when it holds several transactions (fees of
+ *   each) or ExactOut SOL-funded buys: wrapped lamports and fees of every
+ *   transaction, plus the rent of every token account created
+ * - A sold mint's other token accounts are emptied into its ATA in the first
+ *   transaction selling that mint only (later ones find them empty)
+ * - `preInstructions` go in the first transaction only, `postInstructions` in
+ *   the last one only (every candidate is sized with room for them)
+ * - `steps`, `onTooLarge: "requote"` and `onSimulationFailure` are rejected:
+ *   the split build runs the default pipeline, splits instead of re-quoting,
+ *   and does not simulate
+ *
+ * @throws InvalidParamsError if `steps`, `onTooLarge: "requote"` or `onSimulationFailure` is set
+ * @throws TransactionTooLargeError if a single route does not fit on its own
+ * @throws InsufficientBalanceError if the wallet cannot pay for the whole batch
+ */
+export async function buildMultiSwapTxsV0(
+  params: BuildMultiSwapParams
+): Promise<BuildMultiSwapBatchResult> {
+  if (params.steps !== undefined) {
+    throw new InvalidParamsError("buildMultiSwapTxsV0 runs the default pipeline: steps is not supported");
+  }
+  if (params.onTooLarge === "requote") {
+    throw new InvalidParamsError('buildMultiSwapTxsV0 splits oversized bundles: onTooLarge "requote" is not supported');
+  }
+  if (params.onSimulationFailure !== undefined) {
+    throw new InvalidParamsError("buildMultiSwapTxsV0 does not simulate: onSimulationFailure is not supported");
+  }
+
+  const ctx = createStepContext(params);
+
+  await runSteps(
+    [
+      new ValidateRoutesStep(),
+      new NormalizeRoutesStep(),
+      new PreflightBalanceStep(),
+      new PlatformFeeStep(),
+      new QuoteStep(),
+      new SwapStep(),
+      new ResolveAltStep(),
+    ],
+    ctx
+  );
+
+  const payloads = [...ctx.swapPayloads].sort((a, b) => a.i - b.i);
+  ctx.consolidateInstrs = firstRouteOnly(ctx.consolidateInstrs, payloads);
+  const groups: Array<StepContext["swapPayloads"]> = [];
+  let current: StepContext["swapPayloads"] = [];
+
+  for (const payload of payloads) {
+    const candidate = [...current, payload];
+    if (await fits(ctx, candidate, groups.length === 0)) {
+      current = candidate;
+      continue;
+    }
+
+    // First route of a transaction: must fit on its own
+    if (current.length > 0) groups.push(current);
+    const size = await groupSize(ctx, [payload], groups.length === 0);
+    if (size === -1 || size > MAX_TX_SIZE) {
+      throw new TransactionTooLargeError(size, MAX_TX_SIZE, { routeIndex: payload.i });
+    }
+    current = [payload];
+  }
+  if (current.length > 0) groups.push(current);
+
+  const transactions: BuildMultiSwapResult[] = [];
+  for (const [k, group] of groups.entries()) {
+    transactions.push(await buildGroup(ctx, group, { first: k === 0, last: k === groups.length - 1 }));
+  }
+
+  const recheck = transactions.length > 1 || payloads.some((p) => isSolFundedExactOut(ctx.routes[p.i]));
+  const balanceCheck =
+    ctx.checkBalance && recheck
+      ? await checkSolBalance(
+          ctx,
+          {
+            wrappedLamports: transactions.reduce((sum, t) => sum + BigInt(t.diagnostics.wrappedLamports), 0n),
+            fees: transactions.reduce((sum, t) => sum + transactionFees(t.diagnostics.priorityFee), 0n),
+          },
+          payloads.map((p) => p.i)
+        )
+      : ctx.balanceCheck;
+
+  return {
+    transactions,
+    diagnostics: {
+      skipped: ctx.skipped,
+      executedCount: payloads.length,
+      requestedCount: ctx.routes.length,
+      groups: transactions.map((t) => t.diagnostics.routeIndices),
+      balanceCheck,
+    },
+  };
+}
+
+/**
+ * Keep each shared consolidation list on the first of its routes (routes are
+ * packed in order, so it lands in the earliest transaction selling the mint).
+ */
+function firstRouteOnly(
+  instrs: Map<number, TransactionInstruction[]>,
+  payloads: StepContext["swapPayloads"]
+): Map<number, TransactionInstruction[]> {
+  const placed = new Set<TransactionInstruction[]>();
+  const kept = new Map<number, TransactionInstruction[]>();
+  for (const { i } of payloads) {
+    const ixs = instrs.get(i);
+    if (!ixs || placed.has(ixs)) continue;
+    placed.add(ixs);
+    kept.set(i, ixs);
+  }
+  return kept;
+}
+
+/**
+ * Context of one transaction holding a subset of the quoted routes; the user's
+ * pre/post instructions only go in the first/last transaction of the batch.
+ */
+function groupContext(
+  ctx: StepContext,
+  payloads: StepContext["swapPayloads"],
+  position: { first: boolean; last: boolean }
+): StepContext {
+  const altAddrs = new Set(payloads.flatMap((x) => x.ixs.addressLookupTableAddresses || []));
+
+  return {
+    ...ctx,
+    skipped: [],
+    swapPayloads: payloads,
+    wrapInstrs: [],
+    cleanupInstr: null,
+    preInstructions: position.first ? ctx.preInstructions : [],
+    postInstructions: position.last ? ctx.postInstructions : [],
+    instructions: [],
+    instructionRoutes: new Map(),
+    priorityFeeApplied: undefined,
+    computeUnitsApplied: undefined,
+    // Checked once for the whole batch
+    checkBalance: false,
+    balanceCheck: undefined,
+    altAccounts: ctx.altAccounts.filter((a) => altAddrs.has(a.key.toBase58())),
+    wrappedLamports: 0n,
+    result: undefined,
+  };
+}
+
+/**
+ * Size of a group's transaction, compiled locally: same instructions as the
+ * final build (the compute budget values do not change the size), placeholder
+ * blockhash. The group may end up last, so `postInstructions` are counted.
+ */
+async function groupSize(ctx: StepContext, payloads: StepContext["swapPayloads"], first: boolean): Promise<number> {
+  const groupCtx = groupContext(ctx, payloads, { first, last: true });
+  // Both steps build instructions locally, without network calls
+  await new WrapSolStep(SOL).run(groupCtx);
+  await new AssembleInstructionsStep().run(groupCtx);
+  const { unsignedTx } = compileTx(
+    groupCtx,
+    PublicKey.default.toBase58(),
+    withComputeUnitPrice(groupCtx.instructions, 0n)
+  );
+  return txSize(unsignedTx);
+}
+
+async function fits(ctx: StepContext, payloads: StepContext["swapPayloads"], first: boolean): Promise<boolean> {
+  const size = await groupSize(ctx, payloads, first);
+  return size !== -1 && size <= MAX_TX_SIZE;
+}
+
+/**
+ * Build one transaction for a subset of the quoted routes.
+ */
+async function buildGroup(
+  ctx: StepContext,
+  payloads: StepContext["swapPayloads"],
+  position: { first: boolean; last: boolean }
+): Promise<BuildMultiSwapResult> {
+  const groupCtx = groupContext(ctx, payloads, position);
+
+  const steps = [
+    new WrapSolStep(SOL),
+    new AssembleInstructionsStep(),
+    new ComputeUnitLimitStep(),
+    new PriorityFeeStep(),
+    new FinalizeTxStep(),
+  ];
+  await runSteps(steps, groupCtx);
+
+  return groupCtx.result!;
+}
@@ -0,0 +1,43 @@
+// src/core/context.ts
+import { BuildMultiSwapParams, StepContext } from "../types.js";
+import { JupiterProvider } from "./providers/JupiterProvider.js";
+import { getConnection } from "../lib/solana.js";
+
+export const SOL = "So11111111111111111111111111111111111111112";
+
+/**
+ * Create a fresh pipeline context from the builder parameters.
+ */
+export function createStepContext(params: BuildMultiSwapParams): StepContext {
+  return {
+    routes: params.routes,
+    provider: params.provider ?? new JupiterProvider(),
+    connection: params.connection ?? getConnection(),
+    userPublicKey: params.userPublicKey,
+    onRouteNotFound: params.onRouteNotFound ?? "skip",
+    onGuardViolation: params.onGuardViolation ?? "skip",
+    routing: params.routing ?? {},
+    platformFee: params.platformFee,
+    platformFees: new Map(),
+    unwrapPolicy: params.unwrapPolicy ?? "unwrap",
+    priorityFee: params.priorityFee ?? { mode: "auto" },
+    computeUnitLimit: params.computeUnitLimit ?? { mode: "provider" },
+    checkBalance: params.checkBalance ?? true,
+    skipped: [],
+    pruned: [],
+    quotes: [],
+    swapPayloads: [],
+    reusedSwaps: new Map(),
+    wrapInstrs: [],
+    cleanupInstr: null,
+    consolidateInstrs: new Map(),
+    closeInstrs: new Map(),
+    destinationInstrs: new Map(),
+    preInstructions: params.preInstructions ?? [],
+    postInstructions: params.postInstructions ?? [],
+    instructions: [],
+    instructionRoutes: new Map(),
+    altAccounts: [],
+    wrappedLamports: 0n,
+  };
+}
@@ -1,13 +1,25 @@
 // src/core/execute.ts
 import {
   Connection,
+  TransactionExpiredBlockheightExceededError,
   VersionedTransaction,
-  Keypair,
 } from "@solana/web3.js";
 import bs58 from "bs58";
+import { getConnection } from "../lib/solana.js";
+import {
+  ExecutionCommitment,
+  ExecutionResult,
+  ExecutionStatusEvent,
+  TransactionSigner,
+} from "../types.js";
+import { KeypairSigner } from "./signers/KeypairSigner.js";
+import { MultiSwapError, rpcCall, RpcError, SignerError, TransactionExpiredError } from "../errors.js";
 
-const RPC = process.env.SOLANA_RPC ?? "https://api.mainnet-beta.solana.com";
-const conn = new Connection(RPC, "confirmed");
+const COMMITMENTS: ExecutionCommitment[] = ["processed", "confirmed", "finalized"];
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2_000;
+// Consecutive failures of one status RPC before giving up on a sent transaction
+const MAX_POLL_FAILURES = 5;
 
 /**
  * ----------------------------------------------------------------------------
@@ -17,65 +29,178 @@ const conn = new Connection(RPC, "confirmed");
  * Utility to sign and submit a Solana v0 (VersionedTransaction).
  *
  * Features
- * - Loads a signer from PRIVATE_KEY_B58 (expected base58-encoded secret key).
+ * - Signs with any `TransactionSigner` (keypair, keyfile, env var, remote signer);
+ *   defaults to `KeypairSigner.fromEnv()` (PRIVATE_KEY_B58, base58 secret key).
+ * - Checks the signer is the transaction's fee payer before anything is sent.
  * - Refreshes `recentBlockhash` + `lastValidBlockHeight` to avoid expired TX errors.
- * - Signs the transaction locally before sending.
- * - Submits via `sendRawTransaction` with retries enabled.
- * - Confirms the transaction using blockhash-based strategy (non-deprecated).
+ * - Rejects signed transactions whose message differs from the one submitted for signing.
+ * - Re-broadcasts the same signed transaction on an interval until it lands,
+ *   then polls its status until the requested commitment or blockhash expiry.
+ * - Reports progress through `onStatus` (sent, processed, confirmed, finalized, expired).
  *
  * Typical failure modes handled:
- * - `TransactionExpiredBlockheightExceededError` (blockhash expired)
- * - Node drop / network transient errors (retries)
+ * - Blockhash expired: `TransactionExpiredError` (TX_EXPIRED)
+ * - Node drop / network transient errors (rebroadcast)
+ * - Transient status RPC failures once sent (retried on the next poll)
+ *
+ * Every failure is a `MultiSwapError`: SIGNER_ERROR, RPC_ERROR or TX_EXPIRED.
  *
  * @param unsignedTx A previously built but unsigned VersionedTransaction
- * @returns The confirmed transaction signature (base58 string)
- * @throws Error if signing key is missing or submission fails
+ * @param options.signer Transaction signer (default: `KeypairSigner.fromEnv()`)
+ * @param options.connection RPC connection (default: `getConnection()`)
+ * @param options.commitment Commitment to wait for (default: "confirmed")
+ * @param options.rebroadcastIntervalMs Delay between broadcasts while not landed (default: 2000)
+ * @param options.pollIntervalMs Delay between status polls (default: 500)
+ * @param options.onStatus Progress callback
+ * @returns Signature, slot, commitment reached, fee, CU consumed and transaction error
+ * @throws SignerError if the signer is missing, not the payer or alters the message
+ * @throws RpcError if an RPC call fails before sending, or a status call fails
+ *   `MAX_POLL_FAILURES` times in a row after (the message carries the signature)
+ * @throws TransactionExpiredError if the blockhash expires first
  */
-export async function execute(unsignedTx: VersionedTransaction): Promise<string> {
-  if (!process.env.PRIVATE_KEY_B58) {
-    throw new Error("Missing PRIVATE_KEY_B58");
-  }
+export async function execute(
+  unsignedTx: VersionedTransaction,
+  options: {
+    signer?: TransactionSigner;
+    connection?: Connection;
+    commitment?: ExecutionCommitment;
+    rebroadcastIntervalMs?: number;
+    pollIntervalMs?: number;
+    onStatus?: (event: ExecutionStatusEvent) => void;
+  } = {}
+): Promise<ExecutionResult> {
+  const conn = options.connection ?? getConnection();
+  const target = options.commitment ?? "confirmed";
+  const rebroadcastInterval = options.rebroadcastIntervalMs ?? DEFAULT_REBROADCAST_INTERVAL_MS;
+  const pollInterval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const emit = options.onStatus ?? (() => {});
 
   // ---------------------------------------------------------------------------
-  // 1) Load signer keypair from environment
+  // 1) Resolve the signer and check it pays for the transaction
   // ---------------------------------------------------------------------------
-  const secret = bs58.decode(process.env.PRIVATE_KEY_B58);
-  const signer = Keypair.fromSecretKey(secret);
+  const signer = options.signer ?? KeypairSigner.fromEnv();
+  const payer = unsignedTx.message.staticAccountKeys[0];
+  if (!payer.equals(signer.publicKey)) {
+    throw new SignerError(
+      `Signer ${signer.publicKey.toBase58()} does not match the transaction payer ${payer.toBase58()}`
+    );
+  }
 
   // ---------------------------------------------------------------------------
   // 2) Refresh blockhash & lastValidBlockHeight for transaction validity
   //    Ensures the transaction will not expire immediately on submission.
   // ---------------------------------------------------------------------------
-  const { blockhash, lastValidBlockHeight } = await conn.getLatestBlockhash("finalized");
+  const { blockhash, lastValidBlockHeight } = await rpcCall("getLatestBlockhash", () =>
+    conn.getLatestBlockhash("finalized")
+  );
   unsignedTx.message.recentBlockhash = blockhash;
 
   // ---------------------------------------------------------------------------
-  // 3) Sign transaction (payer and signer must be included in unsignedTx)
+  // 3) Sign transaction, then make sure the signer did not alter the message
   // ---------------------------------------------------------------------------
-  unsignedTx.sign([signer]);
+  const message = unsignedTx.message.serialize();
+  const signedTx = await signer.signTransaction(unsignedTx).catch((e) => {
+    throw e instanceof MultiSwapError ? e : new SignerError(`Signing failed: ${e?.message ?? e}`, { cause: e });
+  });
+  if (Buffer.compare(Buffer.from(signedTx.message.serialize()), Buffer.from(message)) !== 0) {
+    throw new SignerError("Signer returned a transaction with a different message");
+  }
+  const raw = signedTx.serialize();
+  const signature = bs58.encode(signedTx.signatures[0]);
 
   // ---------------------------------------------------------------------------
-  // 4) Submit transaction to cluster
-  //    - skipPreflight=false → run preflight checks (safer, more accurate CU/fees)
-  //    - maxRetries=3       → retry on transient errors
+  // 4) First broadcast, with preflight checks (safer, surfaces errors early)
+  //    maxRetries=0 → the loop below owns rebroadcasting
   // ---------------------------------------------------------------------------
-  const sig = await conn.sendRawTransaction(unsignedTx.serialize(), {
-    skipPreflight: false,
-    maxRetries: 3,
-  });
+  await rpcCall("sendRawTransaction", () => conn.sendRawTransaction(raw, { skipPreflight: false, maxRetries: 0 }));
+  let attempt = 1;
+  let lastSent = Date.now();
+  emit({ status: "sent", signature, attempt });
 
   // ---------------------------------------------------------------------------
-  // 5) Confirm transaction with blockhash strategy
-  //    Uses `blockhash + lastValidBlockHeight` to avoid deprecated API usage.
+  // 5) Poll until the target commitment; rebroadcast while not landed and
+  //    give up once the blockhash can no longer be included.
   // ---------------------------------------------------------------------------
-  await conn.confirmTransaction(
-    {
-      signature: sig,
-      blockhash,
-      lastValidBlockHeight,
-    },
-    "confirmed"
-  );
+  let reached = -1; // index in COMMITMENTS
+  let slot = 0;
+  let err: ExecutionResult["err"] = null;
+
+  // The transaction may land whatever the RPC says: a failed poll is retried,
+  // only repeated failures of the same call end the loop.
+  const failures = new Map<string, number>();
+  const poll = async <T>(what: string, fn: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      const value = await fn();
+      failures.set(what, 0);
+      return value;
+    } catch (e) {
+      const count = (failures.get(what) ?? 0) + 1;
+      if (count >= MAX_POLL_FAILURES) {
+        throw new RpcError(
+          `${what} failed ${count} times in a row while confirming ${signature}: ${(e as Error)?.message ?? String(e)}`,
+          { cause: e }
+        );
+      }
+      failures.set(what, count);
+      return undefined;
+    }
+  };
+
+  while (reached < COMMITMENTS.indexOf(target)) {
+    await sleep(pollInterval);
+
+    const statuses = await poll("getSignatureStatuses", () => conn.getSignatureStatuses([signature]));
+    const status = statuses?.value[0];
+
+    if (status?.confirmationStatus) {
+      slot = status.slot;
+      err = status.err;
+      const level = COMMITMENTS.indexOf(status.confirmationStatus);
+      // Report every level passed, even if polling skipped some
+      for (let l = reached + 1; l <= level; l++) {
+        emit({ status: COMMITMENTS[l], signature, slot });
+      }
+      reached = Math.max(reached, level);
+      continue;
+    }
+
+    const blockHeight = await poll("getBlockHeight", () => conn.getBlockHeight("confirmed"));
+    if (blockHeight !== undefined && blockHeight > lastValidBlockHeight) {
+      emit({ status: "expired", signature, blockHeight });
+      throw new TransactionExpiredError(signature, {
+        cause: new TransactionExpiredBlockheightExceededError(signature),
+      });
+    }
+
+    if (Date.now() - lastSent >= rebroadcastInterval) {
+      // Same signature: duplicates are dropped by the cluster
+      await conn.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 }).catch(() => undefined);
+      attempt++;
+      lastSent = Date.now();
+      emit({ status: "sent", signature, attempt });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // 6) Fee and CU from the landed transaction (not available at "processed")
+  // ---------------------------------------------------------------------------
+  const landed =
+    reached >= COMMITMENTS.indexOf("confirmed")
+      ? await rpcCall("getTransaction", () =>
+          conn.getTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 })
+        )
+      : null;
+
+  return {
+    signature,
+    slot,
+    commitment: COMMITMENTS[reached],
+    fee: landed?.meta ? String(landed.meta.fee) : undefined,
+    computeUnitsConsumed: landed?.meta?.computeUnitsConsumed ?? undefined,
+    err: err ?? landed?.meta?.err ?? null,
+  };
+}
 
-  return sig;
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
 }
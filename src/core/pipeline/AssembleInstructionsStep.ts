@@ -2,20 +2,41 @@ import { Step } from "./Step.js";
 import { StepContext } from "../../types.js";
 import { ComputeBudgetProgram, TransactionInstruction } from "@solana/web3.js";
 import { toIx } from "../../utils/pk.js";
+import {
+  getComputeUnitLimit,
+  getComputeUnitPrice,
+  isSetComputeUnitLimit,
+  isSetComputeUnitPrice,
+} from "../../utils/computeBudget.js";
 
 /**
  * AssembleInstructionsStep (Strict Deduplication)
  *
+ * - User `preInstructions` first (kept as-is, never deduplicated)
  * - Wrap SOL once at the start
- * - Deduplicate ATA creation (owner+mint) across ALL instruction sources
+ * - Deduplicate ATA creation (owner+mint) across ALL instruction sources,
+ *   destination ATAs of routes with a `destination` included
  * - Deduplicate other instructions (programId+keys+data)
- * - Deduplicate compute budget instructions (keep max 2: limit + price)
+ * - Compute budget: one limit + at most one price (highest of each across routes)
+ * - Move the balances of a sold mint's other token accounts into its ATA
+ *   (once per mint, before any setup or swap)
  * - Append swap + other instructions in order
+ * - Close input accounts emptied by "sell all" routes (only for routes that made it)
  * - Unwrap SOL once at the end
+ * - User `postInstructions` last (kept as-is, never deduplicated)
+ *
+ * Route-specific instructions (consolidation, setup, swap, other, close) are recorded in
+ * `ctx.instructionRoutes` so failures can be mapped back to a route.
  */
 export class AssembleInstructionsStep implements Step {
   async run(ctx: StepContext): Promise<void> {
     const ixs: TransactionInstruction[] = [];
+    const origins = new Map<TransactionInstruction, number>();
+
+    const push = (ix: TransactionInstruction, routeIndex?: number) => {
+      ixs.push(ix);
+      if (routeIndex !== undefined) origins.set(ix, routeIndex);
+    };
 
     // -----------------------------------------------------------------------
     // Global deduplication state
@@ -23,7 +44,7 @@ export class AssembleInstructionsStep implements Step {
     const seenATAs = new Set<string>();
     const seenGeneric = new Set<string>();
 
-    const pushIfUnique = (ix: TransactionInstruction) => {
+    const pushIfUnique = (ix: TransactionInstruction, routeIndex?: number) => {
       if (ix.programId.toBase58() === "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL") {
         // ATA creation: dedupe by (owner, mint)
         const owner = ix.keys[2]?.pubkey.toBase58();
@@ -31,7 +52,7 @@ export class AssembleInstructionsStep implements Step {
         const ataKey = `${owner}|${mint}`;
         if (seenATAs.has(ataKey)) return;
         seenATAs.add(ataKey);
-        ixs.push(ix);
+        push(ix, routeIndex);
       } else {
         // Generic deduplication: programId + accounts + data
         const key =
@@ -42,10 +63,15 @@ export class AssembleInstructionsStep implements Step {
           Buffer.from(ix.data).toString("base64");
         if (seenGeneric.has(key)) return;
         seenGeneric.add(key);
-        ixs.push(ix);
+        push(ix, routeIndex);
       }
     };
 
+    // -----------------------------------------------------------------------
+    // User instructions (before everything)
+    // -----------------------------------------------------------------------
+    ixs.push(...ctx.preInstructions);
+
     // -----------------------------------------------------------------------
     // Wrap SOL (if needed)
     // -----------------------------------------------------------------------
@@ -63,32 +89,36 @@ export class AssembleInstructionsStep implements Step {
     }
 
     // -----------------------------------------------------------------------
-    // Deduplicate compute budget instructions
+    // Compute budget: exactly one limit, at most one price
+    // (highest across routes; PriorityFeeStep applies the configured strategy)
     // -----------------------------------------------------------------------
     const computeBudgetIx = ctx.swapPayloads
       .flatMap((x) => x.ixs.computeBudgetInstructions ?? [])
       .map(toIx);
 
-    const seenCB = new Set<string>();
-    const filteredCB = computeBudgetIx.filter((ix) => {
-      const key = ix.programId.toBase58() + "|" + Buffer.from(ix.data).toString("base64");
-      if (seenCB.has(key)) return false;
-      seenCB.add(key);
-      return true;
-    });
+    const limitIx = highest(computeBudgetIx.filter(isSetComputeUnitLimit), (ix) =>
+      BigInt(getComputeUnitLimit([ix])!)
+    );
+    pushIfUnique(limitIx ?? ComputeBudgetProgram.setComputeUnitLimit({ units: 1_000_000 }));
 
-    if (filteredCB.length > 0) {
-      filteredCB.slice(0, 2).forEach((ix) => pushIfUnique(ix)); // keep max 2
-    } else {
-      pushIfUnique(ComputeBudgetProgram.setComputeUnitLimit({ units: 1_000_000 }));
-    }
+    const priceIx = highest(computeBudgetIx.filter(isSetComputeUnitPrice), (ix) => getComputeUnitPrice([ix])!);
+    if (priceIx) pushIfUnique(priceIx);
+
+    // -----------------------------------------------------------------------
+    // Consolidate sold balances into the ATAs the swaps spend from
+    // -----------------------------------------------------------------------
+    ctx.swapPayloads.forEach((x) => {
+      ctx.consolidateInstrs.get(x.i)?.forEach((ix) => pushIfUnique(ix, x.i));
+    });
 
     // -----------------------------------------------------------------------
-    // Setup instructions (dedupe included)
+    // Setup instructions (dedupe included), destination ATAs first
     // -----------------------------------------------------------------------
     ctx.swapPayloads.forEach((x) => {
+      const destinationIx = ctx.destinationInstrs.get(x.i);
+      if (destinationIx) pushIfUnique(destinationIx, x.i);
       if (x.ixs.setupInstructions?.length) {
-        x.ixs.setupInstructions.map(toIx).forEach((ix: TransactionInstruction) => pushIfUnique(ix));
+        x.ixs.setupInstructions.map(toIx).forEach((ix: TransactionInstruction) => pushIfUnique(ix, x.i));
       }
     });
 
@@ -97,7 +127,7 @@ export class AssembleInstructionsStep implements Step {
     // -----------------------------------------------------------------------
     ctx.swapPayloads.forEach((x) => {
       if (x.ixs.swapInstruction) {
-        pushIfUnique(toIx(x.ixs.swapInstruction));
+        pushIfUnique(toIx(x.ixs.swapInstruction), x.i);
       }
     });
 
@@ -106,10 +136,18 @@ export class AssembleInstructionsStep implements Step {
     // -----------------------------------------------------------------------
     ctx.swapPayloads.forEach((x) => {
       if (x.ixs.otherInstructions?.length) {
-        x.ixs.otherInstructions.map(toIx).forEach((ix: TransactionInstruction) => pushIfUnique(ix));
+        x.ixs.otherInstructions.map(toIx).forEach((ix: TransactionInstruction) => pushIfUnique(ix, x.i));
       }
     });
 
+    // -----------------------------------------------------------------------
+    // Close emptied input accounts ("sell all" + closeAccount)
+    // -----------------------------------------------------------------------
+    ctx.swapPayloads.forEach((x) => {
+      const closeIx = ctx.closeInstrs.get(x.i);
+      if (closeIx) pushIfUnique(closeIx, x.i);
+    });
+
     // -----------------------------------------------------------------------
     // Cleanup (unwrap SOL, close temp accounts)
     // -----------------------------------------------------------------------
@@ -117,7 +155,26 @@ export class AssembleInstructionsStep implements Step {
       pushIfUnique(ctx.cleanupInstr);
     }
 
+    // -----------------------------------------------------------------------
+    // User instructions (after everything)
+    // -----------------------------------------------------------------------
+    ixs.push(...ctx.postInstructions);
+
     // Save optimized instruction list
-    (ctx as any).instructions = ixs;
+    ctx.instructions = ixs;
+    ctx.instructionRoutes = origins;
   }
 }
+
+/**
+ * Instruction with the highest value, or undefined if none.
+ */
+function highest(
+  ixs: TransactionInstruction[],
+  value: (ix: TransactionInstruction) => bigint
+): TransactionInstruction | undefined {
+  return ixs.reduce<TransactionInstruction | undefined>(
+    (best, ix) => (best && value(best) >= value(ix) ? best : ix),
+    undefined
+  );
+}
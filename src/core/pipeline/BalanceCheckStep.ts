@@ -0,0 +1,116 @@
+import { Step } from "./Step.js";
+import { BalanceCheckDiagnostics, MultiRouteInput, PriorityFeeDiagnostics, StepContext } from "../../types.js";
+import { toPk } from "../../utils/pk.js";
+import { getMintInfos } from "../../lib/mints.js";
+import { getAssociatedTokenAddress, NATIVE_MINT, TOKEN_2022_PROGRAM_ID } from "../../lib/spl.js";
+import { InsufficientBalanceError, rpcCall } from "../../errors.js";
+
+export const LAMPORTS_PER_SIGNATURE = 5_000n;
+// Rent-exempt minimum of an ATA: 165 bytes (SPL Token), 170 bytes (Token-2022, ImmutableOwner)
+const TOKEN_ACCOUNT_RENT = 2_039_280n;
+const TOKEN_2022_ACCOUNT_RENT = 2_074_080n;
+
+/**
+ * BalanceCheckStep
+ *
+ * Runs after the priority fee is known, before finalizing (`checkBalance`, default on),
+ * only when a SOL-funded buy is ExactOut: its maximum input is only known once quoted,
+ * so `PreflightBalanceStep` could not count it. The wallet must hold
+ * `wrappedLamports + fees + rent` lamports, where
+ * - fees = signature fee + maximum priority fee (CU price × CU limit)
+ * - rent = one token account for every output ATA (and the WSOL ATA) that does not exist yet;
+ *   a route with a `destination` creates that wallet's ATA instead, one with only a
+ *   `destinationTokenAccount` creates none; a sell consolidating its mint's token accounts
+ *   may create its input ATA
+ *
+ * One batched RPC call (wallet + ATAs). The figures replace the pre-flight ones in
+ * `diagnostics.balanceCheck`; a shortfall throws `InsufficientBalanceError`.
+ */
+export class BalanceCheckStep implements Step {
+  async run(ctx: StepContext): Promise<void> {
+    if (!ctx.checkBalance || !ctx.swapPayloads.some((p) => isSolFundedExactOut(ctx.routes[p.i]))) return;
+
+    ctx.balanceCheck = await checkSolBalance(
+      ctx,
+      { wrappedLamports: ctx.wrappedLamports, fees: transactionFees(ctx.priorityFeeApplied) },
+      ctx.swapPayloads.map((p) => p.i)
+    );
+  }
+}
+
+/**
+ * Buy paying SOL for an exact output: the SOL wrapped is the quote's maximum input.
+ */
+export function isSolFundedExactOut(r: MultiRouteInput): boolean {
+  return r.side !== "sell" && r.inputMint === NATIVE_MINT.toBase58() && r.swapMode === "ExactOut";
+}
+
+/**
+ * Signature fee + maximum priority fee of one transaction, in lamports.
+ */
+export function transactionFees(priorityFee: PriorityFeeDiagnostics | undefined): bigint {
+  return LAMPORTS_PER_SIGNATURE + BigInt(priorityFee?.maxPriorityFeeLamports ?? 0);
+}
+
+/**
+ * Check the wallet holds `wrappedLamports + fees` plus the rent of every token
+ * account the routes `indices` create (each counted once), in one batched RPC call.
+ *
+ * @returns The figures compared
+ * @throws InsufficientBalanceError on a shortfall
+ */
+export async function checkSolBalance(
+  ctx: StepContext,
+  spend: { wrappedLamports: bigint; fees: bigint },
+  indices: number[]
+): Promise<BalanceCheckDiagnostics> {
+  const owner = toPk(ctx.userPublicKey);
+  const sol = NATIVE_MINT.toBase58();
+  const routes = indices.map((i) => ctx.routes[i]);
+  const touchesSol = routes.some((r) => r.inputMint === sol || r.outputMint === sol);
+  const outputs = routes
+    .filter((r) => r.destination !== undefined || r.destinationTokenAccount === undefined)
+    .map((r) => ({ owner: r.destination ?? ctx.userPublicKey, mint: r.outputMint }));
+  const inputs = indices
+    .filter((i) => ctx.consolidateInstrs.has(i))
+    .map((i) => ({ owner: ctx.userPublicKey, mint: ctx.routes[i].inputMint }));
+  const wanted = [...outputs, ...inputs, ...(touchesSol ? [{ owner: ctx.userPublicKey, mint: sol }] : [])];
+  const unique = [...new Map(wanted.map((a) => [`${a.owner}|${a.mint}`, a])).values()];
+
+  const mintInfos = await rpcCall("getMintInfos", () =>
+    getMintInfos(ctx.connection, Array.from(new Set(unique.map((a) => a.mint))), ctx.routes)
+  );
+  const atas = unique.map((a) => {
+    const programId = toPk(mintInfos.get(a.mint)!.programId);
+    return { programId, address: getAssociatedTokenAddress(toPk(a.owner), toPk(a.mint), programId) };
+  });
+
+  const [wallet, ...accounts] = await rpcCall("getMultipleAccountsInfo", () =>
+    ctx.connection.getMultipleAccountsInfo([owner, ...atas.map((a) => a.address)])
+  );
+
+  const missing = atas.filter((_, i) => !accounts[i]);
+  const rent = missing.reduce(
+    (sum, a) => sum + (a.programId.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_ACCOUNT_RENT : TOKEN_ACCOUNT_RENT),
+    0n
+  );
+  const { wrappedLamports, fees } = spend;
+  const required = wrappedLamports + fees + rent;
+  const balance = BigInt(wallet?.lamports ?? 0);
+
+  if (balance < required) {
+    throw new InsufficientBalanceError(
+      `Insufficient SOL: balance ${balance} lamports, required ${required} ` +
+        `(wrapped ${wrappedLamports} + fees ${fees} + rent ${rent})`
+    );
+  }
+
+  return {
+    balance: balance.toString(),
+    required: required.toString(),
+    wrappedLamports: wrappedLamports.toString(),
+    fees: fees.toString(),
+    rent: rent.toString(),
+    newAccounts: missing.map((a) => a.address.toBase58()),
+  };
+}
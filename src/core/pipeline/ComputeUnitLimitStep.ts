@@ -0,0 +1,76 @@
+import { Step } from "./Step.js";
+import { StepContext } from "../../types.js";
+import { PublicKey } from "@solana/web3.js";
+import { compileTx, MAX_TX_SIZE, txSize } from "./FinalizeTxStep.js";
+import { simulate } from "../simulate.js";
+import { rpcCall } from "../../errors.js";
+import {
+  getComputeUnitLimit,
+  MAX_COMPUTE_UNIT_LIMIT,
+  withComputeUnitLimit,
+} from "../../utils/computeBudget.js";
+
+const DEFAULT_MARGIN = 1.1;
+const DEFAULT_LIMIT = 1_000_000;
+
+/**
+ * ComputeUnitLimitStep
+ *
+ * Runs after ALT resolution and before the priority fee (which may depend on the limit).
+ *
+ * - "provider": keep the limit chosen at assembly
+ * - "fixed": set the given limit
+ * - "simulate": simulate the assembled message with the maximum limit, then set
+ *   the limit to `unitsConsumed × margin` (capped at 1.4M). If the simulation
+ *   fails or the message is oversized, the limit is left unchanged.
+ */
+export class ComputeUnitLimitStep implements Step {
+  async run(ctx: StepContext): Promise<void> {
+    const strategy = ctx.computeUnitLimit;
+    const current = getComputeUnitLimit(ctx.instructions) ?? DEFAULT_LIMIT;
+
+    if (strategy.mode === "provider") {
+      ctx.computeUnitsApplied = { mode: "provider", units: current };
+      return;
+    }
+
+    if (strategy.mode === "fixed") {
+      ctx.instructions = withComputeUnitLimit(ctx.instructions, strategy.units);
+      ctx.computeUnitsApplied = { mode: "fixed", units: strategy.units };
+      return;
+    }
+
+    // Simulate with the maximum limit so the measurement is not capped
+    // (the blockhash is replaced by the RPC during simulation)
+    const { unsignedTx } = compileTx(
+      ctx,
+      PublicKey.default.toBase58(),
+      withComputeUnitLimit(ctx.instructions, MAX_COMPUTE_UNIT_LIMIT)
+    );
+
+    const size = txSize(unsignedTx);
+    if (size === -1 || size > MAX_TX_SIZE) {
+      // Cannot be simulated; FinalizeTxStep reports the size error
+      ctx.computeUnitsApplied = { mode: "simulate", units: current };
+      return;
+    }
+
+    const sim = await rpcCall("simulateTransaction", () => simulate(unsignedTx, { connection: ctx.connection }));
+
+    if (sim.err || sim.unitsConsumed === undefined) {
+      ctx.computeUnitsApplied = {
+        mode: "simulate",
+        units: current,
+        simulatedUnits: sim.unitsConsumed,
+        simulationError: sim.err ?? "unitsConsumed not reported",
+      };
+      return;
+    }
+
+    const margin = strategy.margin ?? DEFAULT_MARGIN;
+    const units = Math.min(MAX_COMPUTE_UNIT_LIMIT, Math.ceil(sim.unitsConsumed * margin));
+
+    ctx.instructions = withComputeUnitLimit(ctx.instructions, units);
+    ctx.computeUnitsApplied = { mode: "simulate", units, simulatedUnits: sim.unitsConsumed };
+  }
+}
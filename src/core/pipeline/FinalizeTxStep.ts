@@ -1,53 +1,87 @@
 import { Step } from "./Step.js";
-import { StepContext, BuildMultiSwapResult } from "../../types.js";
+import { StepContext, BuildMultiSwapResult, RoutePlatformFee } from "../../types.js";
 import {
+  TransactionInstruction,
   TransactionMessage,
   VersionedTransaction,
 } from "@solana/web3.js";
-import { getConnection, toPk } from "../../lib/solana.js";
+import { toPk } from "../../lib/solana.js";
+import { rpcCall, TransactionTooLargeError } from "../../errors.js";
 
-const MAX_TX_SIZE = 1232; // Solana packet size limit (bytes)
+export const MAX_TX_SIZE = 1232; // Solana packet size limit (bytes)
 
-export class FinalizeTxStep implements Step {
-  async run(ctx: StepContext): Promise<void> {
-    const { blockhash } = await getConnection().getLatestBlockhash("finalized");
-    const payer = toPk(ctx.userPublicKey);
+/**
+ * Compile instructions into an unsigned v0 transaction, with deduplicated ALTs.
+ *
+ * @param ctx - Pipeline context (payer, ALTs, instructions)
+ * @param blockhash - Recent blockhash to embed
+ * @param instructions - Instructions to compile (default: `ctx.instructions`)
+ */
+export function compileTx(
+  ctx: StepContext,
+  blockhash: string,
+  instructions: TransactionInstruction[] = ctx.instructions
+): { unsignedTx: VersionedTransaction; altBefore: number; altAfter: number } {
+  const payer = toPk(ctx.userPublicKey);
 
-    // ALT fusion/dedup
-    const rawAlts = ctx.altAccounts ?? [];
-    const beforeCount = rawAlts.length;
+  // ALT fusion/dedup
+  const rawAlts = ctx.altAccounts ?? [];
+  const seen = new Set<string>();
+  const mergedAlts = rawAlts.filter((a) => {
+    const key = a.key.toBase58();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
 
-    const seen = new Set<string>();
-    const mergedAlts = rawAlts.filter((a: any) => {
-      const key = a.key.toBase58();
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    });
-    const afterCount = mergedAlts.length;
+  const msgV0 = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message(mergedAlts);
 
-    // Compile transaction
-    const msgV0 = new TransactionMessage({
-      payerKey: payer,
-      recentBlockhash: blockhash,
-      instructions: (ctx as any).instructions,
-    }).compileToV0Message(mergedAlts);
+  return {
+    unsignedTx: new VersionedTransaction(msgV0),
+    altBefore: rawAlts.length,
+    altAfter: mergedAlts.length,
+  };
+}
+
+/**
+ * Serialized size of a transaction, or -1 if it overflows serialization.
+ */
+export function txSize(tx: VersionedTransaction): number {
+  try {
+    return tx.serialize().length;
+  } catch {
+    return -1;
+  }
+}
 
-    const unsignedTx = new VersionedTransaction(msgV0);
+/**
+ * Platform fees of the routes in the transaction, with the amounts quoted.
+ */
+function platformFees(ctx: StepContext): RoutePlatformFee[] | undefined {
+  const fees = ctx.swapPayloads
+    .filter((x) => ctx.platformFees.has(x.i))
+    .map((x) => ({ ...ctx.platformFees.get(x.i)!, amount: x.quote.platformFee?.amount ?? "0" }));
+  return fees.length > 0 ? fees.sort((a, b) => a.index - b.index) : undefined;
+}
+
+export class FinalizeTxStep implements Step {
+  async run(ctx: StepContext): Promise<void> {
+    const { blockhash } = await rpcCall("getLatestBlockhash", () =>
+      ctx.connection.getLatestBlockhash("finalized")
+    );
+
+    // Compile transaction
+    const { unsignedTx, altBefore: beforeCount, altAfter: afterCount } = compileTx(ctx, blockhash);
 
     // Estimate size BEFORE serialize
-    let size = 0;
-    try {
-      size = unsignedTx.serialize().length;
-    } catch {
-      size = -1; // if serialization fails due to oversize
-    }
+    const size = txSize(unsignedTx);
 
     if (size > MAX_TX_SIZE || size === -1) {
-      throw new Error(
-        `Transaction too large: estimated size ${size} bytes (limit ${MAX_TX_SIZE}). ` +
-        `Split into multiple transactions required.`
-      );
+      throw new TransactionTooLargeError(size, MAX_TX_SIZE);
     }
 
     console.log(`✅ Transaction size: ${size} bytes`);
@@ -58,16 +92,25 @@ export class FinalizeTxStep implements Step {
     ctx.result = {
       unsignedTx,
       base64,
+      legs: [...ctx.swapPayloads]
+        .sort((a, b) => a.i - b.i)
+        .map((x) => ({ index: x.i, route: ctx.routes[x.i], quote: x.quote })),
       diagnostics: {
         skipped: ctx.skipped,
         executedCount: ctx.swapPayloads.length,
+        routeIndices: ctx.swapPayloads.map((x) => x.i).sort((a, b) => a - b),
         requestedCount: ctx.routes.length,
-        wrappedLamports: ctx.wrappedLamports,
+        wrappedLamports: Number(ctx.wrappedLamports),
         altBefore: beforeCount,
         altAfter: afterCount,
         altSaved: beforeCount - afterCount,
         txSize: size,
         overLimit: false,
+        priorityFee: ctx.priorityFeeApplied,
+        computeUnits: ctx.computeUnitsApplied,
+        balanceCheck: ctx.balanceCheck,
+        platformFees: platformFees(ctx),
+        instructionRoutes: ctx.instructions.map((ix) => ctx.instructionRoutes.get(ix) ?? null),
       },
     } as BuildMultiSwapResult;
   }
@@ -1,55 +1,314 @@
 import { Step } from "./Step";
-import { StepContext } from "../../types";
-import { getConnection, toPk } from "../../lib/solana";
-import { uiToBaseUnits, solToLamports } from "../../utils/amounts";
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { MultiRouteInput, StepContext } from "../../types";
+import { toPk } from "../../lib/solana";
+import { getMintInfos, MintInfo } from "../../lib/mints.js";
+import {
+  closeAccountIx,
+  createAtaIdempotentIx,
+  decodeTokenAccount,
+  getAssociatedTokenAddress,
+  NATIVE_MINT,
+  transferCheckedIx,
+} from "../../lib/spl.js";
+import { AmountError, parseBaseUnits, parseUiAmount } from "../../utils/amounts";
+import { InsufficientBalanceError, InvalidRouteError, MultiSwapError, rpcCall } from "../../errors.js";
+
+// `percent` is parsed with 6 decimals: 100% = 100_000_000
+const PERCENT_DECIMALS = 6;
+const PERCENT_SCALE = 100n * 10n ** BigInt(PERCENT_DECIMALS);
 
 /**
  * NormalizeRoutesStep
  *
  * Responsibilities:
- * - Convert `uiAmount` to base units when provided
- * - Enforce presence of either `amount` or `uiAmount`
- * - Clamp SELL amounts against the on-chain balance
- * - Convert BUY orders in native SOL to lamports
+ * - Convert `uiAmount` to base units when provided, for any mint and side
+ *   (ExactIn: input mint decimals, ExactOut: output mint decimals)
+ * - Enforce exactly one of `amount`, `uiAmount`, `percent` or `all`
+ * - Resolve SELL `percent` / `all` against the owner's balance for that mint,
+ *   summed across every token account the owner holds for it
+ * - Clamp SELL amounts against that same balance
+ * - Reject bundles whose sells of one input mint add up to more than that balance
+ * - When those sells need more than the ATA holds, schedule transfers of every
+ *   other account's balance into the ATA (created if missing), since the swap
+ *   spends from the ATA only
+ * - Reject amounts that resolve to zero base units (uiAmount rounded down,
+ *   tiny percent, sell of an empty balance)
+ * - Schedule a close-account for `all` + `closeAccount` routes
+ * - Convert `minOutUiAmount` to `minOutAmount` (output mint decimals, rounded up)
+ * - Resolve `destination` into `destinationTokenAccount` (its ATA of the output
+ *   mint) and schedule the ATA creation (idempotent, paid by the user)
+ * - Validate amounts (exact decimal parsing, `bigint` arithmetic)
+ *
+ * Decimals are fetched in one batched, cached lookup (SPL Token + Token-2022),
+ * balances with one `getTokenAccountsByOwner` call per token program.
  */
 export class NormalizeRoutesStep implements Step {
-  constructor(private SOL: string) {}
-
   async run(ctx: StepContext): Promise<void> {
-    const conn = getConnection();
-
-    ctx.routes = await Promise.all(
-      ctx.routes.map(async (r, idx) => {
-        // SELL order with uiAmount: convert to base units and clamp to token balance
-        if (r.side === "sell" && r.uiAmount !== undefined && r.amount === undefined) {
-          const res = await conn.getTokenSupply(toPk(r.inputMint));
-          const decimals = res.value.decimals;
-          const baseStr = uiToBaseUnits(r.uiAmount, decimals);
-
-          const ata = await conn.getTokenAccountsByOwner(toPk(ctx.userPublicKey), { mint: toPk(r.inputMint) });
-          let onchainBalance = 0n;
-          if (ata.value.length > 0) {
-            const bal = await conn.getTokenAccountBalance(ata.value[0].pubkey);
-            onchainBalance = BigInt(bal.value.amount);
-          }
-
-          const safeAmount = BigInt(baseStr) > onchainBalance ? onchainBalance : BigInt(baseStr);
-          return { ...r, amount: safeAmount.toString() };
-        }
+    const mints = ctx.routes.flatMap((r) => [
+      ...(r.amount === undefined && r.uiAmount !== undefined ? [amountMint(r)] : []),
+      ...(r.all && r.closeAccount ? [r.inputMint] : []),
+      ...(r.minOutAmount === undefined && r.minOutUiAmount !== undefined ? [r.outputMint] : []),
+      ...(r.destination !== undefined ? [r.outputMint] : []),
+    ]);
+    const sellMints = ctx.routes.filter(isExactInSell).map((r) => r.inputMint);
+    const mintInfos = await rpcCall("getMintInfos", () =>
+      getMintInfos(ctx.connection, [...mints, ...sellMints], ctx.routes)
+    );
+    const holdings = await this.sellHoldings(ctx, sellMints, mintInfos);
+    const balances = new Map([...holdings].map(([mint, h]) => [mint, h.total]));
 
-        // BUY order with native SOL and uiAmount: convert to lamports
-        if (r.side !== "sell" && r.inputMint === this.SOL && r.uiAmount !== undefined && r.amount === undefined) {
-          return { ...r, amount: solToLamports(r.uiAmount) };
+    ctx.closeInstrs = new Map();
+    ctx.destinationInstrs = new Map();
+    ctx.routes = ctx.routes.map((r, idx) => {
+      try {
+        const normalized = normalizeMinOut(this.normalize(ctx, r, idx, mintInfos, balances), mintInfos);
+        if (BigInt(normalized.amount!) === 0n) {
+          throw new InvalidRouteError(`order[${idx}] amount resolves to zero base units`, { routeIndex: idx });
+        }
+        return this.resolveDestination(ctx, normalized, idx, mintInfos);
+      } catch (e) {
+        if (e instanceof AmountError) {
+          throw new AmountError(`order[${idx}] ${e.message}`, e.input, { routeIndex: idx, cause: e });
+        }
+        if (e instanceof MultiSwapError && e.routeIndex === undefined) {
+          e.routeIndex = idx;
         }
+        throw e;
+      }
+    });
+    checkSellTotals(ctx.routes, balances);
+    ctx.consolidateInstrs = consolidate(ctx, holdings, mintInfos);
+  }
+
+  /**
+   * Point the route at its destination's ATA of the output mint, created before its swap.
+   */
+  private resolveDestination(
+    ctx: StepContext,
+    r: MultiRouteInput,
+    idx: number,
+    mintInfos: Map<string, MintInfo>
+  ): MultiRouteInput {
+    if (r.destination === undefined) return r;
+
+    const owner = toPk(r.destination);
+    const mint = toPk(r.outputMint);
+    const tokenProgram = toPk(mintInfos.get(r.outputMint)!.programId);
+    ctx.destinationInstrs.set(idx, createAtaIdempotentIx(toPk(ctx.userPublicKey), owner, mint, tokenProgram));
+    return { ...r, destinationTokenAccount: getAssociatedTokenAddress(owner, mint, tokenProgram).toBase58() };
+  }
+
+  private normalize(
+    ctx: StepContext,
+    r: MultiRouteInput,
+    idx: number,
+    mintInfos: Map<string, MintInfo>,
+    balances: Map<string, bigint>
+  ): MultiRouteInput {
+    const given = [r.amount, r.uiAmount, r.percent, r.all || undefined].filter((v) => v !== undefined);
+    if (given.length > 1) {
+      throw new InvalidRouteError(`order[${idx}] amount, uiAmount, percent and all are mutually exclusive`, {
+        routeIndex: idx,
+      });
+    }
+
+    // Amount explicitly provided: validate, no conversion required
+    if (r.amount !== undefined) {
+      return { ...r, amount: parseBaseUnits(r.amount).toString() };
+    }
+
+    // Percent-of-balance or sell-all
+    if (r.percent !== undefined || r.all) {
+      if (r.side !== "sell" || r.swapMode === "ExactOut") {
+        throw new InvalidRouteError(`order[${idx}] percent/all are only supported on ExactIn sells`, {
+          routeIndex: idx,
+        });
+      }
 
-        // Amount explicitly provided: no conversion required
-        if (r.amount !== undefined) {
-          return r;
+      const balance = balances.get(r.inputMint)!;
+      if (balance === 0n) {
+        throw new InsufficientBalanceError(`order[${idx}] no ${r.inputMint} balance to sell`, { routeIndex: idx });
+      }
+
+      if (r.all) {
+        if (r.closeAccount && r.inputMint !== NATIVE_MINT.toBase58()) {
+          // WSOL is closed by the unwrap policy instead
+          const owner = toPk(ctx.userPublicKey);
+          const tokenProgram = toPk(mintInfos.get(r.inputMint)!.programId);
+          const ata = getAssociatedTokenAddress(owner, toPk(r.inputMint), tokenProgram);
+          ctx.closeInstrs.set(idx, closeAccountIx(ata, owner, owner, tokenProgram));
         }
+        return { ...r, amount: balance.toString() };
+      }
+
+      const pct = parseUiAmount(r.percent!, PERCENT_DECIMALS, "floor");
+      if (pct <= 0n || pct > PERCENT_SCALE) {
+        throw new AmountError(`percent must be in (0, 100]: ${r.percent}`, r.percent);
+      }
+      return { ...r, amount: ((balance * pct) / PERCENT_SCALE).toString() };
+    }
+
+    // Invalid route: no amount specified
+    if (r.uiAmount === undefined) {
+      throw new InvalidRouteError(`order[${idx}] missing amount/uiAmount`, { routeIndex: idx });
+    }
+
+    const { decimals } = mintInfos.get(amountMint(r))!;
+    const requested = parseUiAmount(r.uiAmount, decimals, r.rounding);
+
+    // SELL order (ExactIn): clamp to token balance
+    if (isExactInSell(r)) {
+      const onchainBalance = balances.get(r.inputMint)!;
+      if (onchainBalance === 0n) {
+        throw new InsufficientBalanceError(`order[${idx}] no ${r.inputMint} balance to sell`, { routeIndex: idx });
+      }
+      const safeAmount = requested > onchainBalance ? onchainBalance : requested;
+      return { ...r, amount: safeAmount.toString() };
+    }
+
+    return { ...r, amount: requested.toString() };
+  }
 
-        // Invalid route: neither amount nor uiAmount specified
-        throw new Error(`order[${idx}] missing amount/uiAmount`);
+  /**
+   * Owner's token accounts of each mint, with their summed balance: one
+   * `getTokenAccountsByOwner` call per token program of the mints.
+   */
+  private async sellHoldings(
+    ctx: StepContext,
+    mints: string[],
+    mintInfos: Map<string, MintInfo>
+  ): Promise<Map<string, Holdings>> {
+    const unique = Array.from(new Set(mints));
+    if (unique.length === 0) return new Map();
+
+    const owner = toPk(ctx.userPublicKey);
+    const programs = Array.from(new Set(unique.map((mint) => mintInfos.get(mint)!.programId)));
+    const responses = await Promise.all(
+      programs.map((programId) =>
+        rpcCall("getTokenAccountsByOwner", () =>
+          ctx.connection.getTokenAccountsByOwner(owner, { programId: toPk(programId) })
+        )
+      )
+    );
+
+    const holdings = new Map<string, Holdings>(
+      unique.map((mint) => {
+        const ata = getAssociatedTokenAddress(owner, toPk(mint), toPk(mintInfos.get(mint)!.programId));
+        return [mint, { total: 0n, ata, ataExists: false, ataAmount: 0n, others: [] }];
       })
     );
+    for (const { pubkey, account } of responses.flatMap((r) => r.value)) {
+      const decoded = decodeTokenAccount(account.data);
+      const h = decoded && holdings.get(decoded.mint.toBase58());
+      if (!h || !decoded.owner.equals(owner)) continue;
+
+      h.total += decoded.amount;
+      if (pubkey.equals(h.ata)) {
+        h.ataExists = true;
+        h.ataAmount = decoded.amount;
+      } else if (decoded.amount > 0n) {
+        h.others.push({ address: pubkey, amount: decoded.amount });
+      }
+    }
+    return holdings;
   }
 }
+
+/**
+ * Owner's token accounts of one mint: the ATA the swap spends from, and every
+ * other non-empty account.
+ */
+interface Holdings {
+  /** Summed balance of every account */
+  total: bigint;
+  ata: PublicKey;
+  ataExists: boolean;
+  ataAmount: bigint;
+  others: Array<{ address: PublicKey; amount: bigint }>;
+}
+
+/**
+ * Transfers moving every other account's balance into the ATA (created first if
+ * missing), for each mint whose sells need more than the ATA holds. The same
+ * instructions are attached to every sell route of that mint (assembly keeps
+ * one copy), so they stay in place whichever of those routes is executed.
+ */
+function consolidate(
+  ctx: StepContext,
+  holdings: Map<string, Holdings>,
+  mintInfos: Map<string, MintInfo>
+): Map<number, TransactionInstruction[]> {
+  const sold = new Map<string, bigint>();
+  ctx.routes.filter(isExactInSell).forEach((r) => {
+    sold.set(r.inputMint, (sold.get(r.inputMint) ?? 0n) + BigInt(r.amount!));
+  });
+
+  const owner = toPk(ctx.userPublicKey);
+  const byMint = new Map<string, TransactionInstruction[]>();
+  for (const [mint, h] of holdings) {
+    if (sold.get(mint)! <= h.ataAmount || h.others.length === 0) continue;
+
+    const { decimals, programId } = mintInfos.get(mint)!;
+    const tokenProgram = toPk(programId);
+    byMint.set(mint, [
+      ...(h.ataExists ? [] : [createAtaIdempotentIx(owner, owner, toPk(mint), tokenProgram)]),
+      ...h.others.map((o) => transferCheckedIx(o.address, toPk(mint), h.ata, owner, o.amount, decimals, tokenProgram)),
+    ]);
+  }
+
+  const instrs = new Map<number, TransactionInstruction[]>();
+  ctx.routes.forEach((r, idx) => {
+    const ixs = isExactInSell(r) ? byMint.get(r.inputMint) : undefined;
+    if (ixs) instrs.set(idx, ixs);
+  });
+  return instrs;
+}
+
+/**
+ * Reject sells of one input mint adding up to more than the owner's balance
+ * (e.g. 50% and "all" of the same mint).
+ */
+function checkSellTotals(routes: MultiRouteInput[], balances: Map<string, bigint>): void {
+  const totals = new Map<string, bigint>();
+  routes.forEach((r, idx) => {
+    if (!isExactInSell(r)) return;
+    const total = (totals.get(r.inputMint) ?? 0n) + BigInt(r.amount!);
+    const balance = balances.get(r.inputMint)!;
+    if (total > balance) {
+      throw new InsufficientBalanceError(
+        `order[${idx}] sells of ${r.inputMint} add up to ${total}, above the ${balance} balance`,
+        { routeIndex: idx }
+      );
+    }
+    totals.set(r.inputMint, total);
+  });
+}
+
+/**
+ * Sell spending a known input amount from the owner's token accounts.
+ */
+function isExactInSell(r: MultiRouteInput): boolean {
+  return r.side === "sell" && r.swapMode !== "ExactOut";
+}
+
+/**
+ * Express the minimum output guard in base units.
+ */
+function normalizeMinOut(r: MultiRouteInput, mintInfos: Map<string, MintInfo>): MultiRouteInput {
+  if (r.minOutAmount !== undefined) {
+    return { ...r, minOutAmount: parseBaseUnits(r.minOutAmount).toString() };
+  }
+  if (r.minOutUiAmount !== undefined) {
+    const { decimals } = mintInfos.get(r.outputMint)!;
+    return { ...r, minOutAmount: parseUiAmount(r.minOutUiAmount, decimals, "ceil").toString() };
+  }
+  return r;
+}
+
+/**
+ * Mint in which the route amount is denominated.
+ */
+function amountMint(r: MultiRouteInput): string {
+  return r.swapMode === "ExactOut" ? r.outputMint : r.inputMint;
+}
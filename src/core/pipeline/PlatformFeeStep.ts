@@ -0,0 +1,70 @@
+import { Step } from "./Step.js";
+import { MultiRouteInput, PlatformFeeConfig, RoutePlatformFee, StepContext } from "../../types.js";
+import { toPk } from "../../utils/pk.js";
+import { decodeTokenAccount, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "../../lib/spl.js";
+import { InvalidRouteError, rpcCall } from "../../errors.js";
+
+/**
+ * PlatformFeeStep
+ *
+ * Resolves the platform fee of every route (its own `platformFee`, else the
+ * bundle default) into `ctx.platformFees`, then checks in one batched call that
+ * each fee account is an existing token account of the fee mint — output mint
+ * for ExactIn, input mint for ExactOut. Jupiter would otherwise fail the swap.
+ *
+ * `QuoteStep` sends `platformFeeBps`, `SwapStep` the matching `feeAccount`.
+ */
+export class PlatformFeeStep implements Step {
+  async run(ctx: StepContext): Promise<void> {
+    ctx.platformFees = new Map();
+    ctx.routes.forEach((r, index) => {
+      const fee = resolvePlatformFee(index, r, ctx.platformFee);
+      if (fee) ctx.platformFees.set(index, fee);
+    });
+    if (ctx.platformFees.size === 0) return;
+
+    const fees = [...ctx.platformFees.values()];
+    const accounts = await rpcCall("getMultipleAccountsInfo", () =>
+      ctx.connection.getMultipleAccountsInfo(fees.map((f) => toPk(f.feeAccount)))
+    );
+
+    fees.forEach((fee, k) => {
+      const account = accounts[k];
+      const isTokenAccount =
+        !!account && (account.owner.equals(TOKEN_PROGRAM_ID) || account.owner.equals(TOKEN_2022_PROGRAM_ID));
+      const decoded = isTokenAccount ? decodeTokenAccount(account.data) : null;
+
+      if (!decoded) {
+        throw new InvalidRouteError(
+          `order[${fee.index}] fee account ${fee.feeAccount} is not an existing token account`,
+          { routeIndex: fee.index }
+        );
+      }
+      if (decoded.mint.toBase58() !== fee.mint) {
+        throw new InvalidRouteError(
+          `order[${fee.index}] fee account ${fee.feeAccount} holds ${decoded.mint.toBase58()}, expected ${fee.mint}`,
+          { routeIndex: fee.index }
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Platform fee of a route, or `undefined` if none applies
+ * (no configuration, zero bps, or no account for the fee mint).
+ */
+export function resolvePlatformFee(
+  index: number,
+  r: MultiRouteInput,
+  defaults: PlatformFeeConfig | undefined
+): RoutePlatformFee | undefined {
+  const config = r.platformFee ?? defaults;
+  if (!config || config.feeBps === 0) return undefined;
+
+  const mint = r.swapMode === "ExactOut" ? r.inputMint : r.outputMint;
+  const feeAccount = typeof config.feeAccount === "string" ? config.feeAccount : config.feeAccount[mint];
+  if (!feeAccount) return undefined;
+
+  return { index, feeBps: config.feeBps, feeAccount, mint };
+}
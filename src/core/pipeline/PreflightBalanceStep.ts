@@ -0,0 +1,43 @@
+import { Step } from "./Step.js";
+import { MultiRouteInput, StepContext } from "../../types.js";
+import { NATIVE_MINT } from "../../lib/spl.js";
+import { estimatePriorityFee } from "../priorityFee.js";
+import { MAX_COMPUTE_UNIT_LIMIT } from "../../utils/computeBudget.js";
+import { checkSolBalance, LAMPORTS_PER_SIGNATURE } from "./BalanceCheckStep.js";
+
+/**
+ * PreflightBalanceStep
+ *
+ * Runs right after normalization, before any quote (`checkBalance`, default on):
+ * the wallet must hold `wrappedLamports + fees + rent` lamports, where
+ * - wrappedLamports = the amounts of the ExactIn SOL-funded buys (known up front)
+ * - fees = signature fee + the priority fee known before quoting
+ *   (`estimatePriorityFee`, over the fixed CU limit, else the 1.4M maximum)
+ * - rent = the token accounts the routes create, as in `BalanceCheckStep`
+ *
+ * ExactOut SOL-funded buys are left to `BalanceCheckStep`, once quoted. The
+ * figures are reported in `diagnostics.balanceCheck`; a shortfall throws
+ * `InsufficientBalanceError` without anything being quoted.
+ */
+export class PreflightBalanceStep implements Step {
+  async run(ctx: StepContext): Promise<void> {
+    if (!ctx.checkBalance) return;
+
+    const indices = ctx.routes.map((_, i) => i).filter((i) => !ctx.pruned.some((p) => p.index === i));
+    const wrappedLamports = indices
+      .map((i) => ctx.routes[i])
+      .filter(isSolFundedExactIn)
+      .reduce((sum, r) => sum + BigInt(r.amount!), 0n);
+    const units = ctx.computeUnitLimit.mode === "fixed" ? ctx.computeUnitLimit.units : MAX_COMPUTE_UNIT_LIMIT;
+    const fees = LAMPORTS_PER_SIGNATURE + estimatePriorityFee(ctx.priorityFee, units);
+
+    ctx.balanceCheck = await checkSolBalance(ctx, { wrappedLamports, fees }, indices);
+  }
+}
+
+/**
+ * Buy paying SOL for an exact input: the SOL wrapped is the route amount.
+ */
+function isSolFundedExactIn(r: MultiRouteInput): boolean {
+  return r.side !== "sell" && r.inputMint === NATIVE_MINT.toBase58() && r.swapMode !== "ExactOut";
+}
@@ -0,0 +1,24 @@
+import { Step } from "./Step.js";
+import { StepContext } from "../../types.js";
+import { resolvePriorityFee } from "../priorityFee.js";
+import { getComputeUnitLimit, MAX_COMPUTE_UNIT_LIMIT, withComputeUnitPrice } from "../../utils/computeBudget.js";
+
+/**
+ * PriorityFeeStep
+ *
+ * Runs after assembly: resolves the configured `priorityFee` strategy and
+ * leaves exactly one SetComputeUnitPrice in `ctx.instructions`.
+ * The applied value is reported in `diagnostics.priorityFee`.
+ */
+export class PriorityFeeStep implements Step {
+  async run(ctx: StepContext): Promise<void> {
+    const applied = await resolvePriorityFee(ctx.priorityFee, {
+      connection: ctx.connection,
+      instructions: ctx.instructions,
+      computeUnitLimit: getComputeUnitLimit(ctx.instructions) ?? MAX_COMPUTE_UNIT_LIMIT,
+    });
+
+    ctx.instructions = withComputeUnitPrice(ctx.instructions, BigInt(applied.microLamports));
+    ctx.priorityFeeApplied = applied;
+  }
+}
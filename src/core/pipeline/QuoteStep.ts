@@ -0,0 +1,99 @@
+import { Step } from "./Step.js";
+import { MultiRouteInput, RoutingOptions, StepContext } from "../../types.js";
+import { JupiterApiError } from "../../lib/jupiter.js";
+import { checkQuoteGuards } from "../quoteGuards.js";
+import { MultiSwapError, NoRouteError, ProviderError, QuoteRejectedError } from "../../errors.js";
+
+/**
+ * QuoteStep
+ *
+ * Quotes every normalized route (in parallel) into `ctx.quotes`, in route order,
+ * with its routing options (route first, then the bundle's `routing`) and
+ * platform fee (`ctx.platformFees`):
+ * - routes pruned in a previous round are not quoted
+ * - quotes kept from a previous attempt (`ctx.reusedSwaps`) are reused while
+ *   the route amount is unchanged
+ * - no route found: skipped or `NoRouteError` (`onRouteNotFound`)
+ * - guard violations: skipped or `QuoteRejectedError` (`onGuardViolation`)
+ *
+ * Throws `NoRouteError` if no route is left.
+ */
+export class QuoteStep implements Step {
+  async run(ctx: StepContext): Promise<void> {
+    ctx.quotes = [];
+    ctx.skipped = [...ctx.pruned];
+
+    await Promise.all(
+      ctx.routes.map(async (r, i) => {
+        if (ctx.pruned.some((p) => p.index === i)) return;
+        try {
+          const reused = ctx.reusedSwaps.get(i);
+          const q =
+            reused && reused.amount === r.amount
+              ? reused.quote
+              : await ctx.provider.getQuote({
+                  inputMint: r.inputMint,
+                  outputMint: r.outputMint,
+                  amount: r.amount!,
+                  slippageBps: r.slippageBps,
+                  swapMode: r.swapMode ?? "ExactIn",
+                  ...routingOptions(ctx.routing, r),
+                  ...(ctx.platformFees.has(i) ? { platformFeeBps: ctx.platformFees.get(i)!.feeBps } : {}),
+                });
+
+          const violation = checkQuoteGuards(r, q);
+          if (violation) {
+            if (ctx.onGuardViolation === "skip") {
+              ctx.skipped.push({ index: i, reason: violation.message, code: violation.code, quote: violation.quote });
+              return;
+            }
+            throw new QuoteRejectedError(`order[${i}] ${violation.message}`, violation.code, violation.quote, {
+              routeIndex: i,
+            });
+          }
+
+          ctx.quotes.push({ i, quote: q });
+        } catch (e: any) {
+          if (e instanceof JupiterApiError && e.errorCode === "COULD_NOT_FIND_ANY_ROUTE") {
+            if (ctx.onRouteNotFound === "skip") {
+              ctx.skipped.push({ index: i, reason: e.message, code: e.errorCode });
+              return;
+            }
+            throw new NoRouteError(`order[${i}] no route found: ${e.message}`, { routeIndex: i, cause: e });
+          }
+          if (e instanceof MultiSwapError) {
+            e.routeIndex ??= i;
+            throw e;
+          }
+          throw new ProviderError(`order[${i}] quote failed: ${e?.message ?? e}`, { routeIndex: i, cause: e });
+        }
+      })
+    );
+
+    // Responses arrive in any order: keep route order for a deterministic assembly
+    ctx.quotes.sort((a, b) => a.i - b.i);
+    ctx.skipped.sort((a, b) => a.index - b.index);
+
+    if (ctx.quotes.length === 0) {
+      const msg =
+        ctx.skipped.length > 0
+          ? `No executable route. Skipped indices: ${ctx.skipped.map((s) => s.index).join(", ")}`
+          : "No executable route.";
+      throw new NoRouteError(msg);
+    }
+  }
+}
+
+/**
+ * Routing options of a route: its own, falling back to the bundle defaults.
+ */
+function routingOptions(defaults: RoutingOptions, r: MultiRouteInput): RoutingOptions {
+  const options: RoutingOptions = {
+    maxAccounts: r.maxAccounts ?? defaults.maxAccounts,
+    dexes: r.dexes ?? defaults.dexes,
+    excludeDexes: r.excludeDexes ?? defaults.excludeDexes,
+    onlyDirectRoutes: r.onlyDirectRoutes ?? defaults.onlyDirectRoutes,
+  };
+  // Leave unset options out of the quote request
+  return Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined));
+}
@@ -1,18 +1,21 @@
 // src/core/pipeline/ResolveAltStep.ts
 import { Step } from "./Step.js";
 import { StepContext } from "../../types.js";
-import { getConnection, toPk } from "../../lib/solana";
+import { toPk } from "../../lib/solana";
 import { AddressLookupTableAccount } from "@solana/web3.js";
+import { rpcCall } from "../../errors.js";
 
 export class ResolveAltStep implements Step {
   async run(ctx: StepContext): Promise<void> {
-    const conn = getConnection();
+    const conn = ctx.connection;
     const altAddrs = Array.from(
       new Set(ctx.swapPayloads.flatMap((x) => x.ixs.addressLookupTableAddresses || []))
     );
 
     const altAccounts: AddressLookupTableAccount[] = (
-      await Promise.all(altAddrs.map((a) => conn.getAddressLookupTable(toPk(a))))
+      await Promise.all(
+        altAddrs.map((a) => rpcCall("getAddressLookupTable", () => conn.getAddressLookupTable(toPk(a))))
+      )
     )
       .map((r) => r.value)
       .filter(Boolean) as AddressLookupTableAccount[];
@@ -1,5 +1,31 @@
 import { StepContext } from "../../types.js";
+import { MultiSwapError } from "../../errors.js";
 
 export interface Step {
+  /** Reported as `MultiSwapError.step` (default: the class name) */
+  readonly name?: string;
   run(ctx: StepContext): Promise<void>;
-}
\ No newline at end of file
+}
+
+/**
+ * Run steps in order. A `MultiSwapError` escaping a step is tagged with the
+ * step name; other errors propagate unchanged.
+ */
+export async function runSteps(steps: Step[], ctx: StepContext): Promise<void> {
+  for (const step of steps) {
+    try {
+      await step.run(ctx);
+    } catch (e) {
+      if (e instanceof MultiSwapError && e.step === undefined) {
+        e.step = stepName(step);
+      }
+      throw e;
+    }
+  }
+}
+
+function stepName(step: Step): string {
+  if (step.name) return step.name;
+  const ctor = step.constructor?.name;
+  return ctor && ctor !== "Object" ? ctor : "anonymous";
+}
@@ -1,50 +1,43 @@
 import { Step } from "./Step.js";
 import { StepContext } from "../../types.js";
-import { JupiterApiError } from "../../lib/jupiter.js";
+import { MultiSwapError, ProviderError } from "../../errors.js";
 
+/**
+ * SwapStep
+ *
+ * Fetches the swap-instructions of every quote in `ctx.quotes` (set by `QuoteStep`),
+ * in parallel, into `ctx.swapPayloads` (route order), with the route's platform
+ * fee account and destination token account if any. A quote reused from a
+ * previous attempt keeps its swap-instructions (`ctx.reusedSwaps`).
+ */
 export class SwapStep implements Step {
   async run(ctx: StepContext): Promise<void> {
-    ctx.swapPayloads = [];
-    ctx.skipped = [];
-
-    await Promise.all(
-      ctx.routes.map(async (r, i) => {
+    ctx.swapPayloads = await Promise.all(
+      ctx.quotes.map(async ({ i, quote }) => {
+        const reused = ctx.reusedSwaps.get(i);
+        if (reused?.quote === quote) return { i, quote, ixs: reused.ixs };
         try {
-          const q = await ctx.provider.getQuote({
-            inputMint: r.inputMint,
-            outputMint: r.outputMint,
-            amount: r.amount!,
-            slippageBps: r.slippageBps,
-            swapMode: "ExactIn",
-          });
-
           const ixs = await ctx.provider.getSwapInstructions({
             userPublicKey: ctx.userPublicKey,
-            quoteResponse: q,
+            quoteResponse: quote,
             wrapAndUnwrapSol: false,
             dynamicComputeUnitLimit: true,
             prioritizationFeeLamports: "auto",
+            feeAccount: ctx.platformFees.get(i)?.feeAccount,
+            destinationTokenAccount: ctx.routes[i].destinationTokenAccount,
           });
-
-          ctx.swapPayloads.push({ i, ixs });
+          return { i, quote, ixs };
         } catch (e: any) {
-          if (e instanceof JupiterApiError && e.errorCode === "COULD_NOT_FIND_ANY_ROUTE") {
-            if (ctx.onRouteNotFound === "skip") {
-              ctx.skipped.push({ index: i, reason: e.message, code: e.errorCode });
-              return;
-            }
+          if (e instanceof MultiSwapError) {
+            e.routeIndex ??= i;
+            throw e;
           }
-          throw e;
+          throw new ProviderError(`order[${i}] swap-instructions failed: ${e?.message ?? e}`, {
+            routeIndex: i,
+            cause: e,
+          });
         }
       })
     );
-
-    if (ctx.swapPayloads.length === 0) {
-      const msg =
-        ctx.skipped.length > 0
-          ? `No executable route. Skipped indices: ${ctx.skipped.map((s) => s.index).join(", ")}`
-          : "No executable route.";
-      throw new Error(msg);
-    }
   }
 }
@@ -0,0 +1,257 @@
+import { PublicKey } from "@solana/web3.js";
+import { Step } from "./Step.js";
+import {
+  ComputeUnitLimitStrategy,
+  MultiRouteInput,
+  PlatformFeeConfig,
+  PriorityFeeStrategy,
+  RoutingOptions,
+  StepContext,
+} from "../../types.js";
+import { MAX_COMPUTE_UNIT_LIMIT } from "../../utils/computeBudget.js";
+import { MAX_U64, parseBaseUnits, parseUiAmount, UiAmount } from "../../utils/amounts.js";
+import { InvalidParamsError, RouteIssue, RouteValidationError } from "../../errors.js";
+
+/** 100% — Jupiter rejects anything above */
+export const MAX_SLIPPAGE_BPS = 10_000;
+
+/**
+ * ValidateRoutesStep
+ *
+ * Runs first, without any network call, and reports every problem at once
+ * (`RouteValidationError.issues`, each with its route index):
+ * - mints must be valid base58 public keys, and differ
+ * - `slippageBps` must be an integer in [0, 10000]
+ * - exactly one of `amount`, `uiAmount`, `percent` or `all`, and non-zero
+ * - `percent` in (0, 100], `percent` / `all` on ExactIn sells only
+ * - guards: `maxPriceImpactPct` ≥ 0, at most one non-zero `minOutAmount` / `minOutUiAmount`
+ * - routing: `maxAccounts` a positive integer, DEX lists of non-empty labels
+ * - platform fee: `feeBps` an integer in [0, 10000], fee accounts valid public keys
+ * - at most one of `destination` / `destinationTokenAccount`, a valid public key
+ * - priority fee: µLamports / lamports integers in u64, `percentile` in [0, 100]
+ * - compute unit limit: `units` an integer in [0, 1.4M], `margin` > 0
+ *   (bundle `routing` / `platformFee` / `priorityFee` / `computeUnitLimit` problems
+ *   throw `InvalidParamsError`)
+ */
+export class ValidateRoutesStep implements Step {
+  async run(ctx: StepContext): Promise<void> {
+    if (!isPublicKey(ctx.userPublicKey)) {
+      throw new InvalidParamsError(`userPublicKey is not a valid public key: ${ctx.userPublicKey}`);
+    }
+    if (ctx.routes.length === 0) {
+      throw new InvalidParamsError("No routes");
+    }
+    const bundle = [
+      ...validateRouting(ctx.routing),
+      ...validatePlatformFee(ctx.platformFee),
+      ...validatePriorityFee(ctx.priorityFee),
+      ...validateComputeUnitLimit(ctx.computeUnitLimit),
+    ];
+    if (bundle.length > 0) {
+      throw new InvalidParamsError(`Invalid bundle options: ${bundle.map(([f, m]) => `${f}: ${m}`).join("; ")}`);
+    }
+
+    const issues = ctx.routes.flatMap((r, index) =>
+      validateRoute(r).map(([field, message]) => ({ index, field, message }) as RouteIssue)
+    );
+
+    if (issues.length > 0) {
+      throw new RouteValidationError(issues);
+    }
+  }
+}
+
+/**
+ * Problems of a single route, as `[field, message]` pairs.
+ */
+export function validateRoute(r: MultiRouteInput): Array<[string, string]> {
+  const issues: Array<[string, string]> = [];
+
+  if (!isPublicKey(r.inputMint)) issues.push(["inputMint", `not a valid public key: ${r.inputMint}`]);
+  if (!isPublicKey(r.outputMint)) issues.push(["outputMint", `not a valid public key: ${r.outputMint}`]);
+  if (r.inputMint === r.outputMint) issues.push(["outputMint", "same as inputMint"]);
+
+  if (!Number.isInteger(r.slippageBps) || r.slippageBps < 0 || r.slippageBps > MAX_SLIPPAGE_BPS) {
+    issues.push(["slippageBps", `must be an integer in [0, ${MAX_SLIPPAGE_BPS}]: ${r.slippageBps}`]);
+  }
+
+  const given = [r.amount, r.uiAmount, r.percent, r.all || undefined].filter((v) => v !== undefined);
+  if (given.length === 0) {
+    issues.push(["amount", "missing amount/uiAmount/percent/all"]);
+  } else if (given.length > 1) {
+    issues.push(["amount", "amount, uiAmount, percent and all are mutually exclusive"]);
+  }
+
+  if (r.amount !== undefined) {
+    const problem = positive(() => parseBaseUnits(r.amount!));
+    if (problem) issues.push(["amount", problem]);
+  }
+  if (r.uiAmount !== undefined) {
+    const problem = positiveUi(r.uiAmount!);
+    if (problem) issues.push(["uiAmount", problem]);
+  }
+  if (r.percent !== undefined) {
+    const problem = positiveUi(r.percent!);
+    if (problem) issues.push(["percent", problem]);
+    else if (Number(r.percent) > 100) issues.push(["percent", `must be in (0, 100]: ${r.percent}`]);
+  }
+  if ((r.percent !== undefined || r.all) && (r.side !== "sell" || r.swapMode === "ExactOut")) {
+    issues.push([r.all ? "all" : "percent", "only supported on ExactIn sells"]);
+  }
+
+  if (r.maxPriceImpactPct !== undefined && !(Number.isFinite(r.maxPriceImpactPct) && r.maxPriceImpactPct >= 0)) {
+    issues.push(["maxPriceImpactPct", `must be a number ≥ 0: ${r.maxPriceImpactPct}`]);
+  }
+  if (r.minOutAmount !== undefined && r.minOutUiAmount !== undefined) {
+    issues.push(["minOutAmount", "minOutAmount and minOutUiAmount are mutually exclusive"]);
+  }
+  if (r.minOutAmount !== undefined) {
+    const problem = positive(() => parseBaseUnits(r.minOutAmount!));
+    if (problem) issues.push(["minOutAmount", problem]);
+  }
+  if (r.minOutUiAmount !== undefined) {
+    const problem = positiveUi(r.minOutUiAmount!);
+    if (problem) issues.push(["minOutUiAmount", problem]);
+  }
+
+  if (r.destination !== undefined && r.destinationTokenAccount !== undefined) {
+    issues.push(["destination", "destination and destinationTokenAccount are mutually exclusive"]);
+  }
+  for (const field of ["destination", "destinationTokenAccount"] as const) {
+    const key = r[field];
+    if (key !== undefined && !isPublicKey(key)) issues.push([field, `not a valid public key: ${key}`]);
+  }
+
+  return [...issues, ...validateRouting(r), ...validatePlatformFee(r.platformFee)];
+}
+
+/**
+ * Problems of routing options, as `[field, message]` pairs.
+ */
+function validateRouting(o: RoutingOptions): Array<[string, string]> {
+  const issues: Array<[string, string]> = [];
+  if (o.maxAccounts !== undefined && !(Number.isInteger(o.maxAccounts) && o.maxAccounts > 0)) {
+    issues.push(["maxAccounts", `must be a positive integer: ${o.maxAccounts}`]);
+  }
+  for (const field of ["dexes", "excludeDexes"] as const) {
+    const labels = o[field];
+    if (labels !== undefined && !(Array.isArray(labels) && labels.every((l) => typeof l === "string" && l.trim()))) {
+      issues.push([field, "must be a list of DEX labels"]);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Problems of a platform fee configuration, as `[field, message]` pairs.
+ */
+function validatePlatformFee(fee: PlatformFeeConfig | undefined): Array<[string, string]> {
+  if (!fee) return [];
+  const issues: Array<[string, string]> = [];
+  if (!Number.isInteger(fee.feeBps) || fee.feeBps < 0 || fee.feeBps > MAX_SLIPPAGE_BPS) {
+    issues.push(["platformFee.feeBps", `must be an integer in [0, ${MAX_SLIPPAGE_BPS}]: ${fee.feeBps}`]);
+  }
+  const accounts = typeof fee.feeAccount === "string" ? [fee.feeAccount] : Object.entries(fee.feeAccount).flat();
+  for (const key of accounts.filter((k) => !isPublicKey(k))) {
+    issues.push(["platformFee.feeAccount", `not a valid public key: ${key}`]);
+  }
+  return issues;
+}
+
+/**
+ * Problems of a priority fee strategy, as `[field, message]` pairs.
+ */
+function validatePriorityFee(fee: PriorityFeeStrategy | undefined): Array<[string, string]> {
+  if (!fee) return [];
+  const issues: Array<[string, string]> = [];
+  const u64 = (field: string, value: number | bigint | undefined) => {
+    if (value !== undefined && !isU64(value)) {
+      issues.push([`priorityFee.${field}`, `must be an integer in u64: ${value}`]);
+    }
+  };
+  switch (fee.mode) {
+    case "auto":
+      break;
+    case "fixed":
+      u64("microLamports", fee.microLamports);
+      break;
+    case "cap":
+      u64("maxLamports", fee.maxLamports);
+      break;
+    case "percentile":
+      if (!(Number.isFinite(fee.percentile) && fee.percentile >= 0 && fee.percentile <= 100)) {
+        issues.push(["priorityFee.percentile", `must be in [0, 100]: ${fee.percentile}`]);
+      }
+      u64("minMicroLamports", fee.minMicroLamports);
+      u64("maxMicroLamports", fee.maxMicroLamports);
+      if (
+        isU64(fee.minMicroLamports ?? 0) &&
+        isU64(fee.maxMicroLamports ?? MAX_U64) &&
+        BigInt(fee.minMicroLamports ?? 0) > BigInt(fee.maxMicroLamports ?? MAX_U64)
+      ) {
+        issues.push(["priorityFee.minMicroLamports", "above maxMicroLamports"]);
+      }
+      break;
+    default:
+      issues.push(["priorityFee.mode", `unknown mode: ${(fee as { mode: unknown }).mode}`]);
+  }
+  return issues;
+}
+
+/**
+ * Problems of a compute unit limit strategy, as `[field, message]` pairs.
+ */
+function validateComputeUnitLimit(limit: ComputeUnitLimitStrategy | undefined): Array<[string, string]> {
+  if (!limit) return [];
+  switch (limit.mode) {
+    case "provider":
+      return [];
+    case "fixed":
+      return Number.isInteger(limit.units) && limit.units >= 0 && limit.units <= MAX_COMPUTE_UNIT_LIMIT
+        ? []
+        : [["computeUnitLimit.units", `must be an integer in [0, ${MAX_COMPUTE_UNIT_LIMIT}]: ${limit.units}`]];
+    case "simulate":
+      return limit.margin === undefined || (Number.isFinite(limit.margin) && limit.margin > 0)
+        ? []
+        : [["computeUnitLimit.margin", `must be a number > 0: ${limit.margin}`]];
+    default:
+      return [["computeUnitLimit.mode", `unknown mode: ${(limit as { mode: unknown }).mode}`]];
+  }
+}
+
+/**
+ * Non-negative integer in u64 (a `number` above 2^53 is not exact: pass a `bigint`).
+ */
+function isU64(value: number | bigint): boolean {
+  const exact = typeof value === "bigint" || (typeof value === "number" && Number.isSafeInteger(value));
+  return exact && BigInt(value) >= 0n && BigInt(value) <= MAX_U64;
+}
+
+function isPublicKey(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Same as `positive` for a UI amount. Mint decimals are unknown here: rounded up
+ * to whole units, any positive amount counts (and one above u64 whole units
+ * exceeds u64 in base units too).
+ */
+function positiveUi(ui: UiAmount): string | undefined {
+  return positive(() => parseUiAmount(ui, 0, "ceil"));
+}
+
+/**
+ * `undefined` if the parsed amount is positive, else the problem.
+ */
+function positive(parse: () => bigint): string | undefined {
+  try {
+    return parse() > 0n ? undefined : "must be greater than zero";
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
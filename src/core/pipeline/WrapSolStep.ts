@@ -1,34 +1,47 @@
 import { Step } from "./Step.js";
 import { StepContext } from "../../types.js";
-import { toIx } from "../../utils/pk.js";
+import { toPk } from "../../utils/pk.js";
+import { buildUnwrapSolInstruction, buildWrapSolInstructions } from "../../lib/spl.js";
 
+/**
+ * WrapSolStep
+ *
+ * Runs after quoting: wraps exactly what the SOL-funded buys may spend.
+ * - ExactIn: the quoted input amount
+ * - ExactOut: the quote's `otherAmountThreshold` (maximum input incl. slippage)
+ *
+ * Instructions are built locally (no network): WSOL ATA creation (idempotent),
+ * lamport transfer and SyncNative.
+ *
+ * Unwrap: with `unwrapPolicy: "unwrap"`, a single CloseAccount is scheduled as
+ * cleanup whenever any swap touches WSOL (SOL-funded buys, sells into SOL,
+ * mixed bundles). Assembly places it after every swap.
+ */
 export class WrapSolStep implements Step {
-  constructor(private SOL: string, private USDC: string) {}
+  constructor(private SOL: string) {}
 
   async run(ctx: StepContext): Promise<void> {
-    const totalLamports = ctx.routes
-      .filter((r) => r.side !== "sell" && r.inputMint === this.SOL)
-      .reduce((sum, r) => sum + Number(r.amount), 0);
+    const totalLamports = ctx.swapPayloads
+      .filter((x) => ctx.routes[x.i].side !== "sell" && x.quote.inputMint === this.SOL)
+      .reduce(
+        (sum, x) =>
+          sum + BigInt(x.quote.swapMode === "ExactOut" ? x.quote.otherAmountThreshold : x.quote.inAmount),
+        0n
+      );
 
     ctx.wrappedLamports = totalLamports;
 
-    if (totalLamports > 0) {
-      const dummyQuote = await ctx.provider.getQuote({
-        inputMint: this.SOL,
-        outputMint: this.USDC,
-        amount: totalLamports.toString(),
-        slippageBps: 1,
-        swapMode: "ExactIn",
-      });
-      const swapIxs = await ctx.provider.getSwapInstructions({
-        userPublicKey: ctx.userPublicKey,
-        quoteResponse: dummyQuote,
-        wrapAndUnwrapSol: true,
-        dynamicComputeUnitLimit: true,
-        prioritizationFeeLamports: "auto",
-      });
-      if (swapIxs.setupInstructions?.length) ctx.wrapInstrs = swapIxs.setupInstructions.map(toIx);
-      if (swapIxs.cleanupInstruction) ctx.cleanupInstr = toIx(swapIxs.cleanupInstruction);
+    const owner = toPk(ctx.userPublicKey);
+
+    if (totalLamports > 0n) {
+      ctx.wrapInstrs = buildWrapSolInstructions(owner, totalLamports);
+    }
+
+    const touchesWsol = ctx.swapPayloads.some(
+      (x) => x.quote.inputMint === this.SOL || x.quote.outputMint === this.SOL
+    );
+    if (touchesWsol && ctx.unwrapPolicy === "unwrap") {
+      ctx.cleanupInstr = buildUnwrapSolInstruction(owner);
     }
   }
 }
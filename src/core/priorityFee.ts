@@ -0,0 +1,146 @@
+// src/core/priorityFee.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Priority fee strategies
+ * ----------------------------------------------------------------------------
+ *
+ * Turns a `PriorityFeeStrategy` into a single compute unit price
+ * (µLamports per CU) for the assembled transaction.
+ *
+ * - "auto" — highest price suggested by the swap provider across routes
+ * - "fixed" — a fixed price per CU
+ * - "cap" — spend at most `maxLamports` in priority fees, given the CU limit
+ * - "percentile" — percentile of `getRecentPrioritizationFees`, restricted to
+ *   the writable accounts the transaction actually locks
+ *
+ * `estimatePriorityFee` gives the part of the fee known before quoting (pre-flight SOL check).
+ *
+ * Usage
+ * ```ts
+ * const fee = await resolvePriorityFee({ mode: "percentile", percentile: 75 }, {
+ *   connection, instructions, computeUnitLimit: 400_000,
+ * });
+ * ```
+ */
+
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { PriorityFeeDiagnostics, PriorityFeeStrategy } from "../types.js";
+import { getComputeUnitPrice } from "../utils/computeBudget.js";
+import { InvalidParamsError, rpcCall } from "../errors.js";
+
+/** RPC limit for `lockedWritableAccounts` */
+const MAX_LOCKED_ACCOUNTS = 128;
+
+/**
+ * Resolve the compute unit price for a strategy.
+ *
+ * @param strategy - Priority fee strategy
+ * @param input.connection - RPC connection (used by "percentile")
+ * @param input.instructions - Assembled instructions (provider price, writable accounts)
+ * @param input.computeUnitLimit - CU limit of the transaction (used by "cap")
+ * @returns Chosen price and the resulting maximum priority fee
+ */
+export async function resolvePriorityFee(
+  strategy: PriorityFeeStrategy,
+  input: {
+    connection: Connection;
+    instructions: TransactionInstruction[];
+    computeUnitLimit: number;
+  }
+): Promise<PriorityFeeDiagnostics> {
+  let microLamports: bigint;
+
+  switch (strategy.mode) {
+    case "auto":
+      microLamports = getComputeUnitPrice(input.instructions) ?? 0n;
+      break;
+    case "fixed":
+      microLamports = BigInt(strategy.microLamports);
+      break;
+    case "cap":
+      microLamports =
+        input.computeUnitLimit > 0
+          ? (BigInt(strategy.maxLamports) * 1_000_000n) / BigInt(input.computeUnitLimit)
+          : 0n;
+      break;
+    case "percentile":
+      microLamports = await percentileFee(
+        input.connection,
+        writableAccounts(input.instructions),
+        strategy.percentile
+      );
+      if (strategy.minMicroLamports !== undefined && microLamports < BigInt(strategy.minMicroLamports)) {
+        microLamports = BigInt(strategy.minMicroLamports);
+      }
+      if (strategy.maxMicroLamports !== undefined && microLamports > BigInt(strategy.maxMicroLamports)) {
+        microLamports = BigInt(strategy.maxMicroLamports);
+      }
+      break;
+  }
+
+  return {
+    mode: strategy.mode,
+    microLamports: microLamports.toString(),
+    computeUnitLimit: input.computeUnitLimit,
+    maxPriorityFeeLamports: ceilDiv(microLamports * BigInt(input.computeUnitLimit), 1_000_000n).toString(),
+  };
+}
+
+/**
+ * Unique writable accounts locked by the instructions.
+ */
+function writableAccounts(ixs: TransactionInstruction[]): PublicKey[] {
+  const seen = new Map<string, PublicKey>();
+  ixs.forEach((ix) =>
+    ix.keys.forEach((k) => {
+      if (k.isWritable) seen.set(k.pubkey.toBase58(), k.pubkey);
+    })
+  );
+  return Array.from(seen.values()).slice(0, MAX_LOCKED_ACCOUNTS);
+}
+
+/**
+ * Maximum priority fee a strategy is known to add before anything is quoted, in
+ * lamports: "fixed" (or the "percentile" floor) price × `computeUnitLimit`, the
+ * "cap" itself; "auto" depends on the provider's suggestions and counts 0.
+ */
+export function estimatePriorityFee(strategy: PriorityFeeStrategy, computeUnitLimit: number): bigint {
+  const perUnit = (microLamports: number | bigint | undefined) =>
+    ceilDiv(BigInt(microLamports ?? 0) * BigInt(computeUnitLimit), 1_000_000n);
+
+  switch (strategy.mode) {
+    case "auto":
+      return 0n;
+    case "fixed":
+      return perUnit(strategy.microLamports);
+    case "cap":
+      return BigInt(strategy.maxLamports);
+    case "percentile":
+      return perUnit(strategy.minMicroLamports);
+  }
+}
+
+/**
+ * Nearest-rank percentile of recent prioritization fees.
+ */
+async function percentileFee(conn: Connection, accounts: PublicKey[], percentile: number): Promise<bigint> {
+  if (!(percentile >= 0 && percentile <= 100)) {
+    throw new InvalidParamsError(`priorityFee.percentile must be in [0, 100]: ${percentile}`);
+  }
+
+  const fees = (
+    await rpcCall("getRecentPrioritizationFees", () =>
+      conn.getRecentPrioritizationFees({ lockedWritableAccounts: accounts })
+    )
+  )
+    .map((f) => BigInt(f.prioritizationFee))
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  if (fees.length === 0) return 0n;
+  const rank = Math.max(1, Math.ceil((percentile / 100) * fees.length));
+  return fees[rank - 1];
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
@@ -1,11 +1,21 @@
-import { getQuote, getSwapInstructions } from "../../lib/jupiter.js";
-import { SwapProvider } from "../../types.js";
+import { JupiterClient, JupiterClientOptions } from "../../lib/jupiter.js";
+import { QuoteParams, SwapProvider } from "../../types.js";
 
+/**
+ * `SwapProvider` backed by a `JupiterClient`
+ * (pass a client, or options to build one; default: configured from the environment).
+ */
 export class JupiterProvider implements SwapProvider {
-  async getQuote(params: any) {
-    return getQuote(params);
+  readonly client: JupiterClient;
+
+  constructor(client: JupiterClient | JupiterClientOptions = {}) {
+    this.client = client instanceof JupiterClient ? client : new JupiterClient(client);
+  }
+
+  async getQuote(params: QuoteParams) {
+    return this.client.getQuote(params);
   }
   async getSwapInstructions(params: any) {
-    return getSwapInstructions(params);
+    return this.client.getSwapInstructions(params);
   }
 }
@@ -0,0 +1,58 @@
+// src/core/quoteGuards.ts
+import { Quote } from "../lib/jupiter.schemas.js";
+import { GuardedQuoteValues, MultiRouteInput } from "../types.js";
+
+/**
+ * A quote rejected by one of its route's guards.
+ */
+export interface QuoteGuardViolation {
+  guard: "maxPriceImpactPct" | "minOutAmount";
+  code: "PRICE_IMPACT_TOO_HIGH" | "OUTPUT_BELOW_MINIMUM";
+  message: string;
+  quote: GuardedQuoteValues;
+}
+
+/**
+ * Check a quote against its route's `maxPriceImpactPct` and `minOutAmount`
+ * (`minOutUiAmount` must already be converted, see `NormalizeRoutesStep`).
+ *
+ * - Price impact: Jupiter's `priceImpactPct` is a fraction, compared × 100
+ * - Minimum output: the guaranteed output, i.e. `otherAmountThreshold` for
+ *   ExactIn (after slippage) and `outAmount` for ExactOut
+ *
+ * @returns The first violation, or `undefined` if the quote passes
+ */
+export function checkQuoteGuards(r: MultiRouteInput, q: Quote): QuoteGuardViolation | undefined {
+  const quote: GuardedQuoteValues = {
+    inAmount: q.inAmount,
+    outAmount: q.outAmount,
+    otherAmountThreshold: q.otherAmountThreshold,
+    priceImpactPct: q.priceImpactPct,
+  };
+
+  if (r.maxPriceImpactPct !== undefined) {
+    const impactPct = Number(q.priceImpactPct) * 100;
+    if (!(impactPct <= r.maxPriceImpactPct)) {
+      return {
+        guard: "maxPriceImpactPct",
+        code: "PRICE_IMPACT_TOO_HIGH",
+        message: `price impact ${impactPct}% above maxPriceImpactPct ${r.maxPriceImpactPct}%`,
+        quote,
+      };
+    }
+  }
+
+  if (r.minOutAmount !== undefined) {
+    const guaranteed = q.swapMode === "ExactOut" ? q.outAmount : q.otherAmountThreshold;
+    if (BigInt(guaranteed) < BigInt(r.minOutAmount)) {
+      return {
+        guard: "minOutAmount",
+        code: "OUTPUT_BELOW_MINIMUM",
+        message: `guaranteed output ${guaranteed} below minOutAmount ${r.minOutAmount}`,
+        quote,
+      };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,90 @@
+// src/core/quoteMultiSwap.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Quote-only preview
+ * ----------------------------------------------------------------------------
+ *
+ * Expected outputs of a bundle, without building a transaction: runs route
+ * validation, normalization and quoting only (no swap-instructions, ALTs or
+ * blockhash). Skip/fail policies and guards behave as in `buildMultiSwapTxV0`.
+ *
+ * Usage
+ * ```ts
+ * const preview = await quoteMultiSwap({ routes, userPublicKey });
+ * preview.routes.forEach((r) => console.log(r.index, r.outAmount, r.minOutAmount, r.labels));
+ * preview.totals.forEach((t) => console.log(t.mint, t.outAmount));
+ * ```
+ */
+
+import { Quote } from "../lib/jupiter.schemas.js";
+import {
+  MultiSwapQuote,
+  OutputMintTotal,
+  QuoteMultiSwapParams,
+  RouteQuotePreview,
+} from "../types.js";
+import { runSteps } from "./pipeline/Step.js";
+import { ValidateRoutesStep } from "./pipeline/ValidateRoutesStep.js";
+import { NormalizeRoutesStep } from "./pipeline/NormalizeRoutesStep.js";
+import { PlatformFeeStep } from "./pipeline/PlatformFeeStep.js";
+import { QuoteStep } from "./pipeline/QuoteStep.js";
+import { createStepContext } from "./context.js";
+
+/**
+ * Quote every route of a bundle.
+ *
+ * @returns Per-route quotes, totals per output mint and skipped routes
+ * @throws NoRouteError if no route can be quoted
+ */
+export async function quoteMultiSwap(params: QuoteMultiSwapParams): Promise<MultiSwapQuote> {
+  const ctx = createStepContext(params);
+  await runSteps(
+    [new ValidateRoutesStep(), new NormalizeRoutesStep(), new PlatformFeeStep(), new QuoteStep()],
+    ctx
+  );
+
+  const routes = ctx.quotes.map(({ i, quote }) => previewQuote(i, quote));
+
+  const totals = new Map<string, OutputMintTotal>();
+  for (const r of routes) {
+    const t = totals.get(r.outputMint) ?? {
+      mint: r.outputMint,
+      outAmount: "0",
+      minOutAmount: "0",
+      routeIndices: [],
+    };
+    totals.set(r.outputMint, {
+      ...t,
+      outAmount: (BigInt(t.outAmount) + BigInt(r.outAmount)).toString(),
+      minOutAmount: (BigInt(t.minOutAmount) + BigInt(r.minOutAmount)).toString(),
+      routeIndices: [...t.routeIndices, r.index],
+    });
+  }
+
+  return {
+    routes,
+    totals: [...totals.values()],
+    skipped: ctx.skipped,
+    requestedCount: ctx.routes.length,
+  };
+}
+
+function previewQuote(index: number, q: Quote): RouteQuotePreview {
+  const exactOut = q.swapMode === "ExactOut";
+  return {
+    index,
+    inputMint: q.inputMint,
+    outputMint: q.outputMint,
+    swapMode: q.swapMode,
+    inAmount: q.inAmount,
+    outAmount: q.outAmount,
+    minOutAmount: exactOut ? q.outAmount : q.otherAmountThreshold,
+    maxInAmount: exactOut ? q.otherAmountThreshold : q.inAmount,
+    priceImpactPct: q.priceImpactPct,
+    labels: [...new Set(q.routePlan.map((p) => p.swapInfo.label))],
+    platformFee: q.platformFee
+      ? { ...q.platformFee, mint: exactOut ? q.inputMint : q.outputMint }
+      : undefined,
+    quote: q,
+  };
+}
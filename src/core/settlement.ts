@@ -0,0 +1,293 @@
+// src/core/settlement.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Settlement report
+ * ----------------------------------------------------------------------------
+ *
+ * What each route of an executed build really filled at, from the landed
+ * transaction (pre/post balances), compared with the quotes it was built from.
+ *
+ * Features
+ * - Realized input spent / output received per route, and slippage vs quote in bps
+ * - Net balance change per mint (native SOL merged with WSOL)
+ * - Fee breakdown: base fee, priority fee, CU price and CU consumed
+ * - Rent locked in created accounts and refunded by closed ones
+ *
+ * Balances are per mint, not per route: when several routes touch the same mint,
+ * the change is split between them — legs whose amount the swap mode fixes
+ * (ExactIn input, ExactOut output) count at their quote, the rest pro rata to
+ * their quotes (`shared: true`). The output of a route with a destination
+ * token account (`destination` / `destinationTokenAccount`) is read from that
+ * account instead.
+ *
+ * Usage
+ * ```ts
+ * const build = await buildMultiSwapTxV0(params);
+ * const { signature } = await execute(build.unsignedTx);
+ * const report = await getSettlementReport(signature, build, { connection });
+ * report.routes.forEach((r) => console.log(r.index, r.actualOut, r.slippageBps));
+ * ```
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  ParsedTransactionWithMeta,
+  TokenBalance,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { getConnection } from "../lib/solana.js";
+import { NATIVE_MINT } from "../lib/spl.js";
+import { getComputeUnitPrice } from "../utils/computeBudget.js";
+import { rpcCall, RpcError } from "../errors.js";
+import {
+  BuildMultiSwapLeg,
+  BuildMultiSwapResult,
+  RouteSettlement,
+  SettlementReport,
+  TransactionCosts,
+} from "../types.js";
+
+const LAMPORTS_PER_SIGNATURE = 5_000n;
+const SOL = NATIVE_MINT.toBase58();
+
+/**
+ * Build the settlement report of an executed build.
+ *
+ * @param signature - Signature of the landed transaction
+ * @param build - Build the transaction was made from (`legs` carry the quotes)
+ * @param options.connection - RPC connection (default: `getConnection()`)
+ */
+export async function getSettlementReport(
+  signature: string,
+  build: BuildMultiSwapResult,
+  options: { connection?: Connection } = {}
+): Promise<SettlementReport> {
+  const tx = await fetchParsedTransaction(signature, options.connection ?? getConnection());
+  const costs = transactionCosts(tx);
+  const deltas = userBalanceChanges(tx, costs);
+  const accountDeltas = tokenAccountChanges(tx);
+
+  return {
+    signature,
+    slot: tx.slot,
+    err: tx.meta!.err,
+    routes: settleRoutes(build.legs, (key) => deltas.get(key) ?? accountDeltas.get(key) ?? 0n),
+    balanceChanges: Array.from(deltas, ([mint, delta]) => ({ mint, delta: delta.toString() })),
+    costs,
+  };
+}
+
+/**
+ * Fee and rent breakdown of a landed transaction.
+ */
+export async function getTransactionCosts(
+  signature: string,
+  options: { connection?: Connection } = {}
+): Promise<TransactionCosts> {
+  return transactionCosts(await fetchParsedTransaction(signature, options.connection ?? getConnection()));
+}
+
+async function fetchParsedTransaction(signature: string, conn: Connection): Promise<ParsedTransactionWithMeta> {
+  const tx = await rpcCall("getParsedTransaction", () =>
+    conn.getParsedTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 })
+  );
+  if (!tx?.meta) {
+    throw new RpcError(`Transaction not found: ${signature}`);
+  }
+  return tx;
+}
+
+function transactionCosts(tx: ParsedTransactionWithMeta): TransactionCosts {
+  const meta = tx.meta!;
+  const fee = BigInt(meta.fee);
+  const signatures = BigInt(tx.transaction.signatures.length || 1);
+  const baseFee = min(signatures * LAMPORTS_PER_SIGNATURE, fee);
+
+  // Compute budget instructions are not parsed by the RPC: decode them locally
+  const budget = tx.transaction.message.instructions
+    .filter((ix) => ix.programId.equals(ComputeBudgetProgram.programId) && "data" in ix)
+    .map(
+      (ix) =>
+        new TransactionInstruction({
+          programId: ix.programId,
+          keys: [],
+          data: Buffer.from(bs58.decode((ix as { data: string }).data)),
+        })
+    );
+
+  // Rent = lamports of created / closed accounts, minus any WSOL they hold
+  const nativePre = nativeAmounts(meta.preTokenBalances);
+  const nativePost = nativeAmounts(meta.postTokenBalances);
+  let rent = 0n;
+  let rentRefunded = 0n;
+  for (let k = 1; k < meta.preBalances.length; k++) {
+    const pre = BigInt(meta.preBalances[k]);
+    const post = BigInt(meta.postBalances[k]);
+    if (pre === 0n && post > 0n) rent += post - (nativePost.get(k) ?? 0n);
+    if (pre > 0n && post === 0n) rentRefunded += pre - (nativePre.get(k) ?? 0n);
+  }
+
+  return {
+    fee: fee.toString(),
+    baseFee: baseFee.toString(),
+    priorityFee: (fee - baseFee).toString(),
+    computeUnitPrice: getComputeUnitPrice(budget)?.toString(),
+    computeUnitsConsumed: meta.computeUnitsConsumed,
+    rent: rent.toString(),
+    rentRefunded: rentRefunded.toString(),
+  };
+}
+
+/**
+ * Net change of the fee payer's balances per mint. Native SOL is merged into the
+ * WSOL mint, net of fees and rent, so wrap/unwrap round trips cancel out.
+ */
+function userBalanceChanges(tx: ParsedTransactionWithMeta, costs: TransactionCosts): Map<string, bigint> {
+  const meta = tx.meta!;
+  const user = tx.transaction.message.accountKeys[0].pubkey.toBase58();
+  const deltas = new Map<string, bigint>();
+  const add = (mint: string, v: bigint) => deltas.set(mint, (deltas.get(mint) ?? 0n) + v);
+
+  for (const b of meta.preTokenBalances ?? []) {
+    if (b.owner === user) add(b.mint, -BigInt(b.uiTokenAmount.amount));
+  }
+  for (const b of meta.postTokenBalances ?? []) {
+    if (b.owner === user) add(b.mint, BigInt(b.uiTokenAmount.amount));
+  }
+
+  add(
+    SOL,
+    BigInt(meta.postBalances[0]) -
+      BigInt(meta.preBalances[0]) +
+      BigInt(costs.fee) +
+      BigInt(costs.rent) -
+      BigInt(costs.rentRefunded)
+  );
+
+  for (const [mint, delta] of deltas) {
+    if (delta === 0n) deltas.delete(mint);
+  }
+  return deltas;
+}
+
+/**
+ * Net change of every token account of the transaction, by address.
+ */
+function tokenAccountChanges(tx: ParsedTransactionWithMeta): Map<string, bigint> {
+  const keys = tx.transaction.message.accountKeys;
+  const deltas = new Map<string, bigint>();
+  const add = (b: TokenBalance, sign: bigint) => {
+    const address = keys[b.accountIndex].pubkey.toBase58();
+    deltas.set(address, (deltas.get(address) ?? 0n) + sign * BigInt(b.uiTokenAmount.amount));
+  };
+
+  (tx.meta!.preTokenBalances ?? []).forEach((b) => add(b, -1n));
+  (tx.meta!.postTokenBalances ?? []).forEach((b) => add(b, 1n));
+  return deltas;
+}
+
+type Flow = {
+  leg: number;
+  dir: "in" | "out";
+  quoted: bigint;
+  /** Amount fixed by the swap mode (ExactIn input, ExactOut output) */
+  fixed: boolean;
+  actual?: bigint;
+};
+
+/**
+ * Attribute balance changes to the routes that touched each mint (or each
+ * destination token account), `delta` giving the net change of a key.
+ */
+function settleRoutes(legs: BuildMultiSwapLeg[], delta: (key: string) => bigint): RouteSettlement[] {
+  const byMint = new Map<string, Flow[]>();
+  const outputKey = (l: BuildMultiSwapLeg) => l.route.destinationTokenAccount ?? l.route.outputMint;
+  const flows = legs.map((l, leg) => {
+    const exactOut = l.quote.swapMode === "ExactOut";
+    const input: Flow = { leg, dir: "in", quoted: BigInt(l.quote.inAmount), fixed: !exactOut };
+    const output: Flow = { leg, dir: "out", quoted: BigInt(l.quote.outAmount), fixed: exactOut };
+    byMint.set(l.route.inputMint, [...(byMint.get(l.route.inputMint) ?? []), input]);
+    byMint.set(outputKey(l), [...(byMint.get(outputKey(l)) ?? []), output]);
+    return { input, output };
+  });
+
+  for (const [key, keyFlows] of byMint) {
+    allocate(keyFlows, delta(key));
+  }
+
+  return legs.map((l, leg) => {
+    const { input, output } = flows[leg];
+    const swapMode = l.quote.swapMode;
+    const slippageBps =
+      swapMode === "ExactOut"
+        ? bps(input.actual! - input.quoted, input.quoted)
+        : bps(output.quoted - output.actual!, output.quoted);
+
+    return {
+      index: l.index,
+      inputMint: l.route.inputMint,
+      outputMint: l.route.outputMint,
+      swapMode,
+      quotedIn: input.quoted.toString(),
+      quotedOut: output.quoted.toString(),
+      actualIn: input.actual!.toString(),
+      actualOut: output.actual!.toString(),
+      slippageBps,
+      shared: byMint.get(l.route.inputMint)!.length > 1 || byMint.get(outputKey(l))!.length > 1,
+    };
+  });
+}
+
+/**
+ * Split a mint's net change (`delta` = received − spent) between its flows.
+ */
+function allocate(flows: Flow[], delta: bigint): void {
+  const signed = (f: Flow, v: bigint) => (f.dir === "out" ? v : -v);
+
+  if (flows.length === 1) {
+    flows[0].actual = signed(flows[0], delta);
+    return;
+  }
+
+  let free = flows.filter((f) => !f.fixed);
+  if (free.length === 0) free = flows;
+  // One equation: only one direction can be left free
+  if (free.some((f) => f.dir === "out") && free.some((f) => f.dir === "in")) {
+    free = free.filter((f) => f.dir === "out");
+  }
+
+  let residual = delta;
+  for (const f of flows) {
+    if (free.includes(f)) continue;
+    f.actual = f.quoted;
+    residual -= signed(f, f.quoted);
+  }
+
+  const total = signed(free[0], residual);
+  const quotedSum = free.reduce((a, f) => a + f.quoted, 0n);
+  let assigned = 0n;
+  free.forEach((f, i) => {
+    f.actual =
+      i === free.length - 1 ? total - assigned : quotedSum > 0n ? (total * f.quoted) / quotedSum : 0n;
+    assigned += f.actual;
+  });
+}
+
+function nativeAmounts(balances: TokenBalance[] | null | undefined): Map<number, bigint> {
+  return new Map(
+    (balances ?? [])
+      .filter((b) => b.mint === SOL)
+      .map((b) => [b.accountIndex, BigInt(b.uiTokenAmount.amount)] as const)
+  );
+}
+
+/** `diff / base` in bps, two decimals */
+function bps(diff: bigint, base: bigint): number {
+  return base > 0n ? Number((diff * 1_000_000n) / base) / 100 : 0;
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
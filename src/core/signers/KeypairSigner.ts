@@ -0,0 +1,57 @@
+import { readFile } from "node:fs/promises";
+import { Keypair, PublicKey, VersionedTransaction } from "@solana/web3.js";
+import bs58 from "bs58";
+import { TransactionSigner } from "../../types.js";
+import { SignerError } from "../../errors.js";
+
+/**
+ * Signs locally with an in-memory `Keypair`.
+ *
+ * - `new KeypairSigner(keypair)`
+ * - `KeypairSigner.fromEnv("PRIVATE_KEY_B58")` — base58 secret key from an env var
+ * - `KeypairSigner.fromKeyfile("/path/to/id.json")` — JSON byte array (solana-keygen format)
+ */
+export class KeypairSigner implements TransactionSigner {
+  constructor(private readonly keypair: Keypair) {}
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction> {
+    tx.sign([this.keypair]);
+    return tx;
+  }
+
+  static fromEnv(name = "PRIVATE_KEY_B58"): KeypairSigner {
+    const secret = process.env[name];
+    if (!secret) {
+      throw new SignerError(`Missing ${name}`);
+    }
+    return new KeypairSigner(secretKeypair(() => bs58.decode(secret), name));
+  }
+
+  static async fromKeyfile(path: string): Promise<KeypairSigner> {
+    let bytes: unknown;
+    try {
+      bytes = JSON.parse(await readFile(path, "utf8"));
+    } catch (e) {
+      throw new SignerError(`Cannot read keyfile ${path}`, { cause: e });
+    }
+    if (!Array.isArray(bytes) || bytes.length !== 64) {
+      throw new SignerError(`Invalid keyfile ${path}: expected a JSON array of 64 bytes`);
+    }
+    return new KeypairSigner(secretKeypair(() => Uint8Array.from(bytes as number[]), `keyfile ${path}`));
+  }
+}
+
+/**
+ * Keypair from a secret key, malformed keys (bad base58, size, bytes) as `SignerError`.
+ */
+function secretKeypair(decode: () => Uint8Array, source: string): Keypair {
+  try {
+    return Keypair.fromSecretKey(decode());
+  } catch (e) {
+    throw new SignerError(`Invalid secret key in ${source}: ${(e as Error)?.message ?? e}`, { cause: e });
+  }
+}
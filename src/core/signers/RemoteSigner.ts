@@ -0,0 +1,80 @@
+import { PublicKey, VersionedTransaction } from "@solana/web3.js";
+import { request } from "undici";
+import { z } from "zod";
+import { TransactionSigner } from "../../types.js";
+import { SignerError } from "../../errors.js";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+const RemoteSignResponseSchema = z.object({
+  /** Signed transaction, base64 */
+  transaction: z.string(),
+});
+
+/**
+ * Custom error class for remote signer failures.
+ */
+export class RemoteSignerError extends SignerError {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly payloadPreview?: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = "RemoteSignerError";
+  }
+}
+
+/**
+ * Delegates signing to an HTTP service (KMS/HSM gateway, custody API, ...).
+ *
+ * Protocol: `POST url` with `{ publicKey, transaction }` (transaction as base64),
+ * answered by `{ transaction }`, the same transaction signed, as base64.
+ */
+export class RemoteSigner implements TransactionSigner {
+  readonly publicKey: PublicKey;
+
+  constructor(
+    private readonly options: {
+      url: string;
+      publicKey: PublicKey | string;
+      /** Extra headers, e.g. `{ authorization: "Bearer ..." }` */
+      headers?: Record<string, string>;
+      timeoutMs?: number;
+    }
+  ) {
+    this.publicKey = new PublicKey(options.publicKey);
+  }
+
+  async signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction> {
+    const timeout = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const res = await request(this.options.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json",
+        ...this.options.headers,
+      },
+      body: JSON.stringify({
+        publicKey: this.publicKey.toBase58(),
+        transaction: Buffer.from(tx.serialize()).toString("base64"),
+      }),
+      headersTimeout: timeout,
+      bodyTimeout: timeout,
+    }).catch((e) => {
+      throw new RemoteSignerError(`Remote signer unreachable: ${e?.message ?? e}`, undefined, undefined, e);
+    });
+
+    if (res.statusCode !== 200) {
+      const text = await res.body.text();
+      throw new RemoteSignerError(`Remote signer HTTP ${res.statusCode}`, res.statusCode, text.slice(0, 800));
+    }
+
+    const parsed = RemoteSignResponseSchema.safeParse(await res.body.json().catch(() => undefined));
+    if (!parsed.success) {
+      throw new RemoteSignerError("Remote signer returned an invalid response", res.statusCode, undefined, parsed.error);
+    }
+    return VersionedTransaction.deserialize(Buffer.from(parsed.data.transaction, "base64"));
+  }
+}
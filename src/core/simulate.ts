@@ -15,24 +15,35 @@
  * ```ts
  * const result = await simulate(unsignedTx);
  * console.log("Logs:", result.logs);
+ *
+ * // with an explicit RPC connection
+ * await simulate(unsignedTx, { connection });
  * ```
  */
 
-import { VersionedTransaction } from "@solana/web3.js";
+import { Connection, VersionedTransaction } from "@solana/web3.js";
 import { getConnection } from "../lib/solana.js";
 
 /**
  * Simulate execution of an unsigned transaction without submitting it.
  *
  * @param unsignedTx - Unsigned VersionedTransaction to simulate
+ * @param options.connection - RPC connection (default: `getConnection()`)
+ * @param options.accounts - Accounts (base58) whose post-simulation state should be returned
  * @returns Simulation result value (accounts, logs, error, units consumed, etc.)
  */
-export async function simulate(unsignedTx: VersionedTransaction) {
-  const conn = getConnection();
+export async function simulate(
+  unsignedTx: VersionedTransaction,
+  options: { connection?: Connection; accounts?: string[] } = {}
+) {
+  const conn = options.connection ?? getConnection();
 
   const sim = await conn.simulateTransaction(unsignedTx, {
     sigVerify: false, // skip signature checks for faster simulation
     replaceRecentBlockhash: true, // replace blockhash to ensure freshness
+    ...(options.accounts?.length
+      ? { accounts: { encoding: "base64" as const, addresses: options.accounts } }
+      : {}),
   });
 
   return sim.value;
@@ -0,0 +1,225 @@
+// src/core/simulationReport.ts
+/**
+ * ----------------------------------------------------------------------------
+ * simulateReport
+ * ----------------------------------------------------------------------------
+ *
+ * Simulates a built multi-swap and maps the outcome back to the routes of
+ * `BuildMultiSwapParams.routes`.
+ *
+ * Features
+ * - Instruction error → originating route index (via `diagnostics.instructionRoutes`)
+ * - Per-route compute units, parsed from program logs
+ * - Pre/post token balances of the user's accounts for every mint involved,
+ *   post state requested through the simulation `accounts` option
+ * - Classified failure reason: slippage exceeded, insufficient funds,
+ *   account not found, compute exhausted
+ *
+ * Usage
+ * ```ts
+ * const build = await buildMultiSwapTxV0(params);
+ * const report = await simulateReport(build, { connection });
+ * if (!report.ok) console.error(report.failure); // { reason, routeIndex, ... }
+ * ```
+ */
+
+import { Connection } from "@solana/web3.js";
+import {
+  BuildMultiSwapResult,
+  SimulationFailureReason,
+  SimulationReport,
+  TokenBalanceChange,
+} from "../types.js";
+import { simulate } from "./simulate.js";
+import { getConnection } from "../lib/solana.js";
+import { getMintInfos } from "../lib/mints.js";
+import { decodeTokenAccount, getAssociatedTokenAddress } from "../lib/spl.js";
+import { toPk } from "../utils/pk.js";
+import { rpcCall } from "../errors.js";
+
+const INVOKE_RE = /^Program (\w+) invoke \[(\d+)\]$/;
+const CONSUMED_RE = /^Program (\w+) consumed (\d+) of \d+ compute units$/;
+const EXIT_RE = /^Program (\w+) (success|failed)/;
+
+/**
+ * Simulate a build and produce a route-level report.
+ *
+ * @param build - Result of `buildMultiSwapTxV0` (or one transaction of `buildMultiSwapTxsV0`)
+ * @param options.connection - RPC connection (default: `getConnection()`)
+ * @throws RpcError if an RPC call fails
+ */
+export async function simulateReport(
+  build: BuildMultiSwapResult,
+  options: { connection?: Connection } = {}
+): Promise<SimulationReport> {
+  const conn = options.connection ?? getConnection();
+  const tx = build.unsignedTx;
+  const user = tx.message.staticAccountKeys[0]; // fee payer
+
+  // User token accounts for every mint the legs touch
+  const mints = Array.from(new Set(build.legs.flatMap((l) => [l.route.inputMint, l.route.outputMint])));
+  const mintInfos = await rpcCall("getMintInfos", () => getMintInfos(conn, mints));
+  const watched = mints.map((mint) => ({
+    mint,
+    account: getAssociatedTokenAddress(user, toPk(mint), toPk(mintInfos.get(mint)!.programId)),
+  }));
+  const addresses = [user, ...watched.map((w) => w.account)];
+
+  const pre = await rpcCall("getMultipleAccountsInfo", () => conn.getMultipleAccountsInfo(addresses));
+  const sim = await rpcCall("simulateTransaction", () =>
+    simulate(tx, { connection: conn, accounts: addresses.map((a) => a.toBase58()) })
+  );
+  const post = sim.accounts ?? [];
+
+  const balanceChanges: TokenBalanceChange[] = watched
+    .map((w, i) => {
+      const before = tokenAmount(pre[i + 1]?.data);
+      const after = tokenAmount(decodeSimulatedData(post[i + 1]?.data));
+      return {
+        account: w.account.toBase58(),
+        mint: w.mint,
+        pre: before.toString(),
+        post: after.toString(),
+        delta: (after - before).toString(),
+      };
+    })
+    .filter((c) => c.delta !== "0");
+
+  const logs = sim.logs ?? [];
+  const instructionUnits = parseInstructionComputeUnits(logs);
+  const routeComputeUnits = new Map<number, number>();
+  instructionUnits.forEach((units, ix) => {
+    const route = build.diagnostics.instructionRoutes[ix];
+    if (route !== null && route !== undefined) {
+      routeComputeUnits.set(route, (routeComputeUnits.get(route) ?? 0) + units);
+    }
+  });
+
+  const report: SimulationReport = {
+    ok: !sim.err,
+    err: sim.err,
+    unitsConsumed: sim.unitsConsumed,
+    routeComputeUnits: Array.from(routeComputeUnits, ([index, unitsConsumed]) => ({ index, unitsConsumed }))
+      .sort((a, b) => a.index - b.index),
+    balanceChanges,
+    lamportsDelta:
+      pre[0] && post[0] ? (BigInt(post[0].lamports) - BigInt(pre[0].lamports)).toString() : undefined,
+    logs,
+  };
+
+  if (sim.err) report.failure = describeSimulationFailure(build, sim.err, logs);
+
+  return report;
+}
+
+/**
+ * Classify a simulation error and map its failing instruction back to a route.
+ */
+export function describeSimulationFailure(
+  build: BuildMultiSwapResult,
+  err: unknown,
+  logs: string[]
+): NonNullable<SimulationReport["failure"]> {
+  const instructionIndex = failedInstructionIndex(err);
+  const route = instructionIndex !== undefined ? build.diagnostics.instructionRoutes[instructionIndex] : null;
+  const { reason, message } = classifySimulationFailure(err, logs);
+  return { reason, instructionIndex, routeIndex: route ?? undefined, message };
+}
+
+/**
+ * Compute units consumed by each top-level instruction, from program logs.
+ * Index `k` of the result is the k-th top-level instruction of the message.
+ */
+export function parseInstructionComputeUnits(logs: string[]): number[] {
+  const units: number[] = [];
+  let depth = 0;
+  let current = -1;
+
+  for (const line of logs) {
+    const invoke = INVOKE_RE.exec(line);
+    if (invoke) {
+      depth = Number(invoke[2]);
+      if (depth === 1) {
+        current++;
+        units[current] = 0;
+      }
+      continue;
+    }
+
+    const consumed = CONSUMED_RE.exec(line);
+    if (consumed && depth === 1 && current >= 0) {
+      units[current] += Number(consumed[2]);
+      continue;
+    }
+
+    if (EXIT_RE.test(line)) depth = Math.max(0, depth - 1);
+  }
+
+  return units;
+}
+
+/**
+ * Top-level instruction index of an `InstructionError`, if any.
+ */
+export function failedInstructionIndex(err: unknown): number | undefined {
+  const index = instructionError(err)?.[0];
+  return typeof index === "number" ? index : undefined;
+}
+
+/**
+ * Classify a simulation failure from the transaction error and logs.
+ */
+export function classifySimulationFailure(
+  err: unknown,
+  logs: string[]
+): { reason: SimulationFailureReason; message: string } {
+  const detail = instructionError(err)?.[1];
+  const errText = typeof err === "string" ? err : JSON.stringify(err);
+  const find = (re: RegExp) => logs.find((l) => re.test(l));
+
+  const compute =
+    detail === "ComputationalBudgetExceeded" || /ComputationalBudgetExceeded|ProgramFailedToComplete/.test(errText)
+      ? errText
+      : find(/exceeded CUs meter|Computational budget exceeded/i);
+  if (compute) return { reason: "compute-exhausted", message: compute };
+
+  // Jupiter: SlippageToleranceExceeded = custom error 6001 (0x1771)
+  const slippage = find(/slippage/i) ?? (customCode(detail) === 6001 ? errText : undefined);
+  if (slippage) return { reason: "slippage-exceeded", message: slippage };
+
+  const funds =
+    /InsufficientFunds/.test(errText) ? errText : find(/insufficient (funds|lamports)/i);
+  if (funds) return { reason: "insufficient-funds", message: funds };
+
+  const missing =
+    /AccountNotFound|ProgramAccountNotFound/.test(errText)
+      ? errText
+      : find(/AccountNotFound|account not found|could not find account|AccountNotInitialized/i);
+  if (missing) return { reason: "account-not-found", message: missing };
+
+  return { reason: "unknown", message: find(/failed|error/i) ?? errText };
+}
+
+/**
+ * `[instruction index, detail]` of an `InstructionError`, if `err` is one.
+ */
+function instructionError(err: unknown): [unknown, unknown] | undefined {
+  if (typeof err !== "object" || err === null) return undefined;
+  const ie = (err as { InstructionError?: unknown }).InstructionError;
+  return Array.isArray(ie) ? [ie[0], ie[1]] : undefined;
+}
+
+/**
+ * Program error code of an instruction error detail (`{ Custom: code }`).
+ */
+function customCode(detail: unknown): unknown {
+  return typeof detail === "object" && detail !== null ? (detail as { Custom?: unknown }).Custom : undefined;
+}
+
+function tokenAmount(data: Uint8Array | undefined): bigint {
+  return (data && decodeTokenAccount(data)?.amount) ?? 0n;
+}
+
+function decodeSimulatedData(data: string[] | undefined): Uint8Array | undefined {
+  return data?.[0] !== undefined ? Buffer.from(data[0], "base64") : undefined;
+}
@@ -0,0 +1,69 @@
+// src/core/sizeFit.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Size-aware re-quoting
+ * ----------------------------------------------------------------------------
+ *
+ * Helpers of `onTooLarge: "requote"`: when the bundle does not fit in one
+ * transaction, measure the accounts each route brings in, then tighten the
+ * routing of the heaviest route — lower `maxAccounts` by a quarter down to a
+ * floor, then `onlyDirectRoutes` — and rebuild, keeping the bundle atomic.
+ */
+
+import { MultiRouteInput, RouteAccountUsage, RoutingOptions, StepContext } from "../types.js";
+
+/** Default floor of `maxAccounts` when re-quoting */
+export const DEFAULT_MIN_MAX_ACCOUNTS = 16;
+
+/** Jupiter's own `maxAccounts` default */
+const JUPITER_MAX_ACCOUNTS = 64;
+
+/**
+ * Distinct accounts (programs included) referenced by each route's instructions,
+ * and how many of them no other instruction uses.
+ */
+export function routeAccountUsage(ctx: StepContext): RouteAccountUsage[] {
+  const routesByKey = new Map<string, Set<number | null>>();
+  const keysByRoute = new Map<number, Set<string>>();
+
+  for (const ix of ctx.instructions) {
+    const route = ctx.instructionRoutes.get(ix) ?? null;
+    for (const key of [ix.programId, ...ix.keys.map((k) => k.pubkey)].map((k) => k.toBase58())) {
+      routesByKey.set(key, (routesByKey.get(key) ?? new Set()).add(route));
+      if (route !== null) keysByRoute.set(route, (keysByRoute.get(route) ?? new Set()).add(key));
+    }
+  }
+
+  return [...keysByRoute]
+    .sort(([a], [b]) => a - b)
+    .map(([index, keys]) => ({
+      index,
+      accounts: keys.size,
+      exclusiveAccounts: [...keys].filter((k) => routesByKey.get(k)!.size === 1).length,
+    }));
+}
+
+/**
+ * Tighter routing for the heaviest route that can still be tightened,
+ * or `undefined` once every route is at the floor and direct-only.
+ */
+export function nextRequote(
+  routes: MultiRouteInput[],
+  defaults: RoutingOptions,
+  usage: RouteAccountUsage[],
+  minMaxAccounts: number
+): { index: number; maxAccounts?: number; onlyDirectRoutes?: boolean } | undefined {
+  const heaviest = [...usage].sort((a, b) => b.exclusiveAccounts - a.exclusiveAccounts || a.index - b.index);
+
+  for (const { index, accounts } of heaviest) {
+    const r = routes[index];
+    const current = Math.min(r.maxAccounts ?? defaults.maxAccounts ?? JUPITER_MAX_ACCOUNTS, accounts);
+    if (current > minMaxAccounts) {
+      return { index, maxAccounts: Math.max(minMaxAccounts, Math.floor(current * 0.75)) };
+    }
+    if (!(r.onlyDirectRoutes ?? defaults.onlyDirectRoutes)) {
+      return { index, maxAccounts: minMaxAccounts, onlyDirectRoutes: true };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,224 @@
+// src/errors.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Error taxonomy
+ * ----------------------------------------------------------------------------
+ *
+ * Every failure of the builder and of `execute` is a `MultiSwapError` with a
+ * stable `code`, so callers can branch without matching messages.
+ *
+ * Context carried by each error (when known):
+ * - `routeIndex` — index in `BuildMultiSwapParams.routes` of the offending route
+ * - `step` — pipeline step that failed (e.g. "NormalizeRoutesStep")
+ * - `cause` — underlying error (RPC, HTTP, parse, ...)
+ *
+ * Usage
+ * ```ts
+ * try {
+ *   await buildMultiSwapTxV0(params);
+ * } catch (e) {
+ *   if (e instanceof MultiSwapError && e.code === "INVALID_ROUTE") highlight(e.routeIndex);
+ * }
+ * ```
+ */
+
+import type { GuardedQuoteValues, SimulationReport, SizeAttempt } from "./types.js";
+
+export type MultiSwapErrorCode =
+  | "INVALID_PARAMS"
+  | "INVALID_ROUTE"
+  | "NO_ROUTE"
+  | "QUOTE_REJECTED"
+  | "TX_TOO_LARGE"
+  | "INSUFFICIENT_BALANCE"
+  | "RPC_ERROR"
+  | "PROVIDER_ERROR"
+  | "SIMULATION_FAILED"
+  | "SIGNER_ERROR"
+  | "TX_EXPIRED";
+
+export interface MultiSwapErrorContext {
+  routeIndex?: number;
+  step?: string;
+  cause?: unknown;
+}
+
+export class MultiSwapError extends Error {
+  readonly code: MultiSwapErrorCode;
+  routeIndex?: number;
+  /** Set by the pipeline runner if the throwing code did not */
+  step?: string;
+
+  constructor(code: MultiSwapErrorCode, message: string, context: MultiSwapErrorContext = {}) {
+    super(message, context.cause !== undefined ? { cause: context.cause } : undefined);
+    this.name = "MultiSwapError";
+    this.code = code;
+    this.routeIndex = context.routeIndex;
+    this.step = context.step;
+  }
+}
+
+/** Invalid builder options (not tied to a route) */
+export class InvalidParamsError extends MultiSwapError {
+  constructor(message: string, context: MultiSwapErrorContext = {}) {
+    super("INVALID_PARAMS", message, context);
+    this.name = "InvalidParamsError";
+  }
+}
+
+/** A route is malformed: amounts, mints, exclusive options */
+export class InvalidRouteError extends MultiSwapError {
+  constructor(message: string, context: MultiSwapErrorContext = {}) {
+    super("INVALID_ROUTE", message, context);
+    this.name = "InvalidRouteError";
+  }
+}
+
+/** One problem found by `ValidateRoutesStep` */
+export interface RouteIssue {
+  /** Index in `BuildMultiSwapParams.routes` */
+  index: number;
+  /** Offending field (e.g. "outputMint", "slippageBps") */
+  field: string;
+  message: string;
+}
+
+/**
+ * Every problem found in the routes, reported at once before any quote.
+ * `routeIndex` is the first offending route.
+ */
+export class RouteValidationError extends InvalidRouteError {
+  constructor(
+    public readonly issues: RouteIssue[],
+    context: MultiSwapErrorContext = {}
+  ) {
+    super(
+      `Invalid routes:\n` + issues.map((i) => `- order[${i.index}] ${i.field}: ${i.message}`).join("\n"),
+      { routeIndex: issues[0]?.index, ...context }
+    );
+    this.name = "RouteValidationError";
+  }
+}
+
+/** The provider found no route (or every route was skipped) */
+export class NoRouteError extends MultiSwapError {
+  constructor(message: string, context: MultiSwapErrorContext = {}) {
+    super("NO_ROUTE", message, context);
+    this.name = "NoRouteError";
+  }
+}
+
+/** A quote violated its route's `maxPriceImpactPct` / `minOutAmount` (`onGuardViolation: "fail"`) */
+export class QuoteRejectedError extends MultiSwapError {
+  constructor(
+    message: string,
+    /** "PRICE_IMPACT_TOO_HIGH" or "OUTPUT_BELOW_MINIMUM" */
+    public readonly reason: string,
+    public readonly quote: GuardedQuoteValues,
+    context: MultiSwapErrorContext = {}
+  ) {
+    super("QUOTE_REJECTED", message, context);
+    this.name = "QuoteRejectedError";
+  }
+}
+
+/**
+ * Raised when the compiled v0 message does not fit in a single packet.
+ * `size` is -1 when serialization itself overflowed.
+ */
+export class TransactionTooLargeError extends MultiSwapError {
+  /** Compilations tried by `onTooLarge: "requote"` before giving up */
+  attempts?: SizeAttempt[];
+
+  constructor(
+    public readonly size: number,
+    public readonly limit: number,
+    context: MultiSwapErrorContext = {}
+  ) {
+    super(
+      "TX_TOO_LARGE",
+      `Transaction too large: estimated size ${size} bytes (limit ${limit}). ` +
+        `Split into multiple transactions required.`,
+      context
+    );
+    this.name = "TransactionTooLargeError";
+  }
+}
+
+/** The wallet cannot cover a route (or the bundle) */
+export class InsufficientBalanceError extends MultiSwapError {
+  constructor(message: string, context: MultiSwapErrorContext = {}) {
+    super("INSUFFICIENT_BALANCE", message, context);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+/** A Solana RPC call failed */
+export class RpcError extends MultiSwapError {
+  constructor(message: string, context: MultiSwapErrorContext = {}) {
+    super("RPC_ERROR", message, context);
+    this.name = "RpcError";
+  }
+}
+
+/** The swap provider (quote / swap-instructions) failed */
+export class ProviderError extends MultiSwapError {
+  constructor(message: string, context: MultiSwapErrorContext = {}) {
+    super("PROVIDER_ERROR", message, context);
+    this.name = "ProviderError";
+  }
+}
+
+/** A build failed in simulation and could not (or may not) be pruned */
+export class SimulationFailedError extends MultiSwapError {
+  constructor(
+    public readonly failure: NonNullable<SimulationReport["failure"]>,
+    public readonly err: unknown,
+    context: MultiSwapErrorContext = {}
+  ) {
+    super(
+      "SIMULATION_FAILED",
+      `Simulation failed (${failure.reason})` +
+        (failure.routeIndex !== undefined ? ` in route ${failure.routeIndex}` : "") +
+        `: ${failure.message}`,
+      { routeIndex: failure.routeIndex, ...context }
+    );
+    this.name = "SimulationFailedError";
+  }
+}
+
+/** Signer missing, not the payer, or misbehaving */
+export class SignerError extends MultiSwapError {
+  constructor(message: string, context: MultiSwapErrorContext = {}) {
+    super("SIGNER_ERROR", message, context);
+    this.name = "SignerError";
+  }
+}
+
+/** The blockhash expired before the transaction reached the requested commitment */
+export class TransactionExpiredError extends MultiSwapError {
+  constructor(
+    public readonly signature: string,
+    context: MultiSwapErrorContext = {}
+  ) {
+    super("TX_EXPIRED", `Transaction ${signature} expired before confirmation`, context);
+    this.name = "TransactionExpiredError";
+  }
+}
+
+/**
+ * Run an RPC call, turning its failures into `RpcError`
+ * (`MultiSwapError`s pass through unchanged).
+ */
+export async function rpcCall<T>(
+  what: string,
+  fn: () => Promise<T>,
+  context: MultiSwapErrorContext = {}
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (e) {
+    if (e instanceof MultiSwapError) throw e;
+    throw new RpcError(`${what} failed: ${(e as Error)?.message ?? String(e)}`, { ...context, cause: e });
+  }
+}
@@ -1,4 +1,31 @@
 export * from "./core/buildMultiSwapTxV0.js";
+export * from "./core/buildMultiSwapTxsV0.js";
 export * from "./core/execute.js";
+export * from "./core/signers/KeypairSigner.js";
+export * from "./core/signers/RemoteSigner.js";
 export * from "./core/simulate.js";
-export * from "./types.js";
\ No newline at end of file
+export * from "./core/simulationReport.js";
+export * from "./core/settlement.js";
+export * from "./core/sizeFit.js";
+export * from "./core/priorityFee.js";
+export * from "./core/quoteGuards.js";
+export * from "./core/quoteMultiSwap.js";
+export * from "./core/providers/JupiterProvider.js";
+export * from "./lib/jupiter.js";
+export * from "./utils/amounts.js";
+export { runSteps, type Step } from "./core/pipeline/Step.js";
+export { ValidateRoutesStep, validateRoute, MAX_SLIPPAGE_BPS } from "./core/pipeline/ValidateRoutesStep.js";
+export { NormalizeRoutesStep } from "./core/pipeline/NormalizeRoutesStep.js";
+export { PlatformFeeStep, resolvePlatformFee } from "./core/pipeline/PlatformFeeStep.js";
+export { QuoteStep } from "./core/pipeline/QuoteStep.js";
+export { SwapStep } from "./core/pipeline/SwapStep.js";
+export { WrapSolStep } from "./core/pipeline/WrapSolStep.js";
+export { AssembleInstructionsStep } from "./core/pipeline/AssembleInstructionsStep.js";
+export { ComputeUnitLimitStep } from "./core/pipeline/ComputeUnitLimitStep.js";
+export { PriorityFeeStep } from "./core/pipeline/PriorityFeeStep.js";
+export { ResolveAltStep } from "./core/pipeline/ResolveAltStep.js";
+export { PreflightBalanceStep } from "./core/pipeline/PreflightBalanceStep.js";
+export { BalanceCheckStep } from "./core/pipeline/BalanceCheckStep.js";
+export { FinalizeTxStep, MAX_TX_SIZE } from "./core/pipeline/FinalizeTxStep.js";
+export * from "./types.js";
+export * from "./errors.js";
\ No newline at end of file
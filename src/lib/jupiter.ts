@@ -1,5 +1,34 @@
 // src/lib/jupiter.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Jupiter v6 HTTP client
+ * ----------------------------------------------------------------------------
+ *
+ * `JupiterClient` calls the quote, swap-instructions and swap endpoints with
+ * validation (zod), per-request timeouts and retries.
+ *
+ * Configuration (all optional)
+ * - `baseUrl` — default `JUPITER_API_URL` or `https://quote-api.jup.ag/v6`
+ *   (self-hosted instance, keyed `https://api.jup.ag/swap/v1`, local mock, ...)
+ * - `apiKey` — sent as `x-api-key`; default `JUPITER_API_KEY`
+ * - `timeoutMs` — hard deadline of each request (connect, headers and body), default 10 s
+ * - `retry` — retries on 429, 5xx and network errors / timeouts, with
+ *   exponential backoff + jitter; a `Retry-After` header takes precedence.
+ *   Gives up once the next wait would exceed the retry budget (`budgetMs`).
+ * - `logger` — receives retry warnings (default `console`)
+ *
+ * The free functions `getQuote`, `getSwapInstructions` and `getSwap` use a
+ * default client built from the environment.
+ *
+ * Usage
+ * ```ts
+ * const jupiter = new JupiterClient({ baseUrl: "https://api.jup.ag/swap/v1", apiKey });
+ * const quote = await jupiter.getQuote({ inputMint, outputMint, amount, slippageBps: 50 });
+ * ```
+ */
+
 import { request } from "undici";
+import type { ZodType, ZodTypeDef } from "zod";
 import {
   QuoteSchema,
   type Quote,
@@ -8,82 +37,101 @@ import {
   type SwapResponse,
   type SwapIxs,
 } from "./jupiter.schemas.js";
+import { ProviderError } from "../errors.js";
+
+const DEFAULT_BASE_URL = "https://quote-api.jup.ag/v6";
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRY: JupiterRetryPolicy = {
+  maxRetries: 5,
+  baseDelayMs: 300,
+  maxDelayMs: 5_000,
+  budgetMs: 30_000,
+};
 
 /**
  * Custom error class for Jupiter API failures.
+ * `status` is 0 when no HTTP response was received (network error, timeout).
  */
-export class JupiterApiError extends Error {
+export class JupiterApiError extends ProviderError {
   constructor(
     message: string,
     public readonly status: number,
     public readonly errorCode?: string,
-    public readonly payloadPreview?: string
+    public readonly payloadPreview?: string,
+    /** Delay requested by a `Retry-After` header, if any */
+    public readonly retryAfterMs?: number,
+    cause?: unknown
   ) {
-    super(message);
+    super(message, { cause });
     this.name = "JupiterApiError";
   }
 }
 
-/**
- * Generic exponential backoff retry wrapper.
- * - Retries on 429 or 5xx
- * - Delay grows exponentially (baseDelay * 2^attempt)
- * - Adds jitter to avoid thundering herd
- */
-async function withBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries = 5,
-  baseDelayMs = 300
-): Promise<T> {
-  let attempt = 0;
-  while (true) {
-    try {
-      return await fn();
-    } catch (err: any) {
-      const status = err?.status ?? err?.response?.statusCode;
-      if (
-        attempt < maxRetries &&
-        (status === 429 || (status && status >= 500))
-      ) {
-        const delay =
-          baseDelayMs * Math.pow(2, attempt) +
-          Math.floor(Math.random() * 100); // jitter
-        console.warn(
-          `⚠️ Jupiter API ${status}, retrying in ${delay}ms (attempt ${
-            attempt + 1
-          }/${maxRetries})`
-        );
-        await new Promise((r) => setTimeout(r, delay));
-        attempt++;
-        continue;
-      }
-      throw err;
-    }
-  }
+export interface JupiterRetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Backoff delay before the first retry, doubled on each retry */
+  baseDelayMs: number;
+  /** Cap of a single backoff delay (`Retry-After` is not capped) */
+  maxDelayMs: number;
+  /** Total time allowed for one call, retries and waits included */
+  budgetMs: number;
 }
 
-/**
- * Safely stringify unknown objects for logs and error messages.
- */
-function preview(obj: unknown, len = 1000) {
-  try {
-    return JSON.stringify(obj).slice(0, len);
-  } catch {
-    return String(obj).slice(0, len);
-  }
+export interface JupiterLogger {
+  warn(message: string): void;
 }
 
-/**
- * Fetch a v6 quote from Jupiter with retry + validation.
- */
-export async function getQuote(params: {
-  inputMint: string;
-  outputMint: string;
-  amount: string | number;
-  slippageBps: number;
-  swapMode?: "ExactIn" | "ExactOut";
-}): Promise<Quote> {
-  return withBackoff(async () => {
+export interface JupiterClientOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  retry?: Partial<JupiterRetryPolicy>;
+  logger?: JupiterLogger;
+}
+
+export interface JupiterSwapBody {
+  userPublicKey: string;
+  quoteResponse: Quote;
+  wrapAndUnwrapSol: boolean;
+  dynamicComputeUnitLimit?: boolean;
+  prioritizationFeeLamports?: "auto" | number;
+  /** Token account collecting the quote's platform fee */
+  feeAccount?: string;
+  /** Initialized token account receiving the output (default: the user's ATA) */
+  destinationTokenAccount?: string;
+}
+
+export class JupiterClient {
+  readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly timeoutMs: number;
+  private readonly retry: JupiterRetryPolicy;
+  private readonly logger: JupiterLogger;
+
+  constructor(options: JupiterClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? process.env.JUPITER_API_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.apiKey = options.apiKey ?? (process.env.JUPITER_API_KEY || undefined);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.logger = options.logger ?? console;
+  }
+
+  /**
+   * Fetch a v6 quote. Routing options are only sent when set.
+   */
+  async getQuote(params: {
+    inputMint: string;
+    outputMint: string;
+    amount: string | number;
+    slippageBps: number;
+    swapMode?: "ExactIn" | "ExactOut";
+    maxAccounts?: number;
+    dexes?: string[];
+    excludeDexes?: string[];
+    onlyDirectRoutes?: boolean;
+    platformFeeBps?: number;
+  }): Promise<Quote> {
     const search = new URLSearchParams({
       inputMint: params.inputMint,
       outputMint: params.outputMint,
@@ -91,92 +139,140 @@ export async function getQuote(params: {
       slippageBps: String(params.slippageBps),
       swapMode: params.swapMode ?? "ExactIn",
     });
+    if (params.maxAccounts !== undefined) search.set("maxAccounts", String(params.maxAccounts));
+    if (params.dexes?.length) search.set("dexes", params.dexes.join(","));
+    if (params.excludeDexes?.length) search.set("excludeDexes", params.excludeDexes.join(","));
+    if (params.onlyDirectRoutes !== undefined) search.set("onlyDirectRoutes", String(params.onlyDirectRoutes));
+    if (params.platformFeeBps !== undefined) search.set("platformFeeBps", String(params.platformFeeBps));
+    return this.call("Quote", `/quote?${search.toString()}`, undefined, QuoteSchema);
+  }
 
-    const res = await request(
-      `https://quote-api.jup.ag/v6/quote?${search.toString()}`,
-      { method: "GET", headers: { accept: "application/json" } }
-    );
+  /**
+   * Fetch swap-instructions (v6).
+   */
+  async getSwapInstructions(body: JupiterSwapBody): Promise<SwapIxs> {
+    return this.call("swap-instructions", "/swap-instructions", body, SwapIxsSchema);
+  }
+
+  /**
+   * Fetch a full swap transaction (v6).
+   */
+  async getSwap(body: JupiterSwapBody): Promise<SwapResponse> {
+    return this.call("/swap", "/swap", body, SwapSchema);
+  }
+
+  /**
+   * One API call with retries: GET without body, POST (JSON) with one.
+   */
+  private async call<T>(
+    what: string,
+    path: string,
+    body: unknown,
+    schema: ZodType<T, ZodTypeDef, unknown>
+  ): Promise<T> {
+    const started = Date.now();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return schema.parse(await this.send(what, path, body));
+      } catch (err) {
+        if (!(err instanceof JupiterApiError) || !isRetryable(err.status) || attempt >= this.retry.maxRetries) {
+          throw err;
+        }
+        const backoff = this.retry.baseDelayMs * 2 ** attempt + Math.floor(Math.random() * 100); // jitter
+        const delay = err.retryAfterMs ?? Math.min(this.retry.maxDelayMs, backoff);
+        if (Date.now() - started + delay > this.retry.budgetMs) {
+          throw err;
+        }
+        this.logger.warn(
+          `⚠️ Jupiter API ${err.status || err.message}, retrying in ${delay}ms ` +
+            `(attempt ${attempt + 1}/${this.retry.maxRetries})`
+        );
+        await new Promise((r) => setTimeout(r, delay));
+      }
+    }
+  }
+
+  private async send(what: string, path: string, body: unknown): Promise<unknown> {
+    const headers: Record<string, string> = { accept: "application/json" };
+    if (body !== undefined) headers["content-type"] = "application/json";
+    if (this.apiKey) headers["x-api-key"] = this.apiKey;
+
+    // Aborts the whole exchange, not just a stalled phase (a slowly trickling body included)
+    const signal = AbortSignal.timeout(this.timeoutMs);
+    const res = await request(`${this.baseUrl}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal,
+    }).catch((e) => {
+      throw new JupiterApiError(`${what} request failed: ${e?.message ?? e}`, 0, undefined, undefined, undefined, e);
+    });
 
     if (res.statusCode !== 200) {
-      const text = await res.body.text();
+      const text = await res.body.text().catch((e) => {
+        throw new JupiterApiError(`${what} response failed: ${e?.message ?? e}`, 0, undefined, undefined, undefined, e);
+      });
       let code: string | undefined;
       try {
         code = (JSON.parse(text).errorCode as string) ?? undefined;
       } catch {}
       throw new JupiterApiError(
-        `Quote HTTP ${res.statusCode}`,
+        `${what} HTTP ${res.statusCode}`,
         res.statusCode,
         code,
-        text.slice(0, 800)
+        text.slice(0, 800),
+        parseRetryAfter(res.headers["retry-after"])
       );
     }
 
-    const raw = await res.body.json();
-   
-    return QuoteSchema.parse(raw);
-  });
+    return res.body.json().catch((e) => {
+      throw new JupiterApiError(`${what} response failed: ${e?.message ?? e}`, 0, undefined, undefined, undefined, e);
+    });
+  }
+}
+
+function isRetryable(status: number): boolean {
+  return status === 0 || status === 429 || status >= 500;
 }
 
 /**
- * Fetch swap-instructions (v6) with retry + validation.
+ * `Retry-After` in ms: delay in seconds or HTTP date.
  */
-export async function getSwapInstructions(body: {
-  userPublicKey: string;
-  quoteResponse: Quote;
-  wrapAndUnwrapSol: boolean;
-  dynamicComputeUnitLimit?: boolean;
-  prioritizationFeeLamports?: "auto" | number;
-}): Promise<SwapIxs> {
-  return withBackoff(async () => {
-    const res = await request("https://quote-api.jup.ag/v6/swap-instructions", {
-      method: "POST",
-      headers: { "content-type": "application/json", accept: "application/json" },
-      body: JSON.stringify(body),
-    });
+function parseRetryAfter(header: string | string[] | undefined): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
-    if (res.statusCode !== 200) {
-      const text = await res.body.text();
-      throw new JupiterApiError(
-        `swap-instructions HTTP ${res.statusCode}`,
-        res.statusCode,
-        undefined,
-        text.slice(0, 800)
-      );
-    }
+let defaultClient: JupiterClient | undefined;
 
-    const raw = await res.body.json();
-    return SwapIxsSchema.parse(raw);
-  });
+/**
+ * Client used by the free functions, configured from the environment.
+ */
+function getDefaultClient(): JupiterClient {
+  return (defaultClient ??= new JupiterClient());
 }
 
 /**
- * Fetch full swap transaction (v6) with retry + validation.
+ * Fetch a v6 quote from Jupiter with retry + validation (default client).
  */
-export async function getSwap(body: {
-  userPublicKey: string;
-  quoteResponse: Quote;
-  wrapAndUnwrapSol: boolean;
-  dynamicComputeUnitLimit?: boolean;
-  prioritizationFeeLamports?: "auto" | number;
-}): Promise<SwapResponse> {
-  return withBackoff(async () => {
-    const res = await request("https://quote-api.jup.ag/v6/swap", {
-      method: "POST",
-      headers: { "content-type": "application/json", accept: "application/json" },
-      body: JSON.stringify(body),
-    });
+export async function getQuote(params: Parameters<JupiterClient["getQuote"]>[0]): Promise<Quote> {
+  return getDefaultClient().getQuote(params);
+}
 
-    if (res.statusCode !== 200) {
-      const text = await res.body.text();
-      throw new JupiterApiError(
-        `/swap HTTP ${res.statusCode}`,
-        res.statusCode,
-        undefined,
-        text.slice(0, 800)
-      );
-    }
+/**
+ * Fetch swap-instructions (v6) with retry + validation (default client).
+ */
+export async function getSwapInstructions(body: JupiterSwapBody): Promise<SwapIxs> {
+  return getDefaultClient().getSwapInstructions(body);
+}
 
-    const raw = await res.body.json();
-    return SwapSchema.parse(raw);
-  });
+/**
+ * Fetch full swap transaction (v6) with retry + validation (default client).
+ */
+export async function getSwap(body: JupiterSwapBody): Promise<SwapResponse> {
+  return getDefaultClient().getSwap(body);
 }
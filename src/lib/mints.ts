@@ -0,0 +1,107 @@
+// src/lib/mints.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Mint info service (decimals + token program)
+ * ----------------------------------------------------------------------------
+ *
+ * Resolves mint decimals and owning token program for many mints at once.
+ *
+ * - Batches lookups with `getMultipleAccountsInfo` (100 accounts per call)
+ * - Decodes SPL Token and Token-2022 mints (same base layout; extensions ignored)
+ * - Caches results for the lifetime of the process (mint decimals are immutable)
+ *
+ * Usage
+ * ```ts
+ * const infos = await getMintInfos(conn, [USDC, BONK]);
+ * console.log(infos.get(USDC)?.decimals); // 6
+ * ```
+ */
+
+import { AccountInfo, Connection } from "@solana/web3.js";
+import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "./spl.js";
+import { toPk } from "./solana.js";
+import { InvalidRouteError } from "../errors.js";
+
+export interface MintInfo {
+  /** Mint address (base58) */
+  mint: string;
+  /** Mint decimals */
+  decimals: number;
+  /** Owning token program (SPL Token or Token-2022), base58 */
+  programId: string;
+}
+
+const MINT_BASE_SIZE = 82;
+const MINT_DECIMALS_OFFSET = 44;
+const MINT_INITIALIZED_OFFSET = 45;
+const MAX_ACCOUNTS_PER_CALL = 100;
+
+const cache = new Map<string, MintInfo>([
+  [
+    NATIVE_MINT.toBase58(),
+    { mint: NATIVE_MINT.toBase58(), decimals: 9, programId: TOKEN_PROGRAM_ID.toBase58() },
+  ],
+]);
+
+/**
+ * Decode a mint account (SPL Token or Token-2022).
+ *
+ * @returns The mint info, or `null` if the account is not an initialized mint
+ */
+export function decodeMintAccount(mint: string, account: AccountInfo<Buffer> | null): MintInfo | null {
+  if (!account) return null;
+
+  const owner = account.owner.toBase58();
+  if (owner !== TOKEN_PROGRAM_ID.toBase58() && owner !== TOKEN_2022_PROGRAM_ID.toBase58()) {
+    return null;
+  }
+  if (account.data.length < MINT_BASE_SIZE || account.data[MINT_INITIALIZED_OFFSET] !== 1) {
+    return null;
+  }
+
+  return { mint, decimals: account.data[MINT_DECIMALS_OFFSET], programId: owner };
+}
+
+/**
+ * Resolve mint infos, using the process-wide cache and batching the misses.
+ *
+ * @param conn - RPC connection
+ * @param mints - Mint addresses (base58), duplicates allowed
+ * @param routes - Routes the mints come from: the error of a bad mint carries the
+ *   index of the first route using it
+ * @returns Map mint → info for every requested mint
+ * @throws InvalidRouteError if a mint does not exist or is not a token mint
+ */
+export async function getMintInfos(
+  conn: Connection,
+  mints: string[],
+  routes: Array<{ inputMint: string; outputMint: string }> = []
+): Promise<Map<string, MintInfo>> {
+  const missing = Array.from(new Set(mints)).filter((m) => !cache.has(m));
+
+  for (let i = 0; i < missing.length; i += MAX_ACCOUNTS_PER_CALL) {
+    const chunk = missing.slice(i, i + MAX_ACCOUNTS_PER_CALL);
+    const accounts = await conn.getMultipleAccountsInfo(chunk.map(toPk));
+
+    chunk.forEach((mint, j) => {
+      const info = decodeMintAccount(mint, accounts[j]);
+      if (!info) {
+        const users = routes.flatMap((r, idx) => (r.inputMint === mint || r.outputMint === mint ? [idx] : []));
+        throw new InvalidRouteError(
+          `${users.map((idx) => `order[${idx}] `).join("")}Mint not found or not a token mint: ${mint}`,
+          { routeIndex: users[0] }
+        );
+      }
+      cache.set(mint, info);
+    });
+  }
+
+  return new Map(mints.map((m) => [m, cache.get(m)!]));
+}
+
+/**
+ * Resolve a single mint's decimals (cached).
+ */
+export async function getMintDecimals(conn: Connection, mint: string): Promise<number> {
+  return (await getMintInfos(conn, [mint])).get(mint)!.decimals;
+}
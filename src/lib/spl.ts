@@ -0,0 +1,173 @@
+// src/lib/spl.ts
+/**
+ * ----------------------------------------------------------------------------
+ * SPL Token helpers (ATA derivation, native SOL wrap/unwrap)
+ * ----------------------------------------------------------------------------
+ *
+ * Minimal, dependency-free encoders for the few SPL Token / Associated Token
+ * Account instructions the pipeline needs. Everything is built locally, no RPC.
+ *
+ * - `getAssociatedTokenAddress` — derive the ATA of (owner, mint)
+ * - `createAtaIdempotentIx` — create an ATA, no-op if it already exists
+ * - `syncNativeIx` / `closeAccountIx` / `transferCheckedIx` — SPL Token instructions
+ * - `buildWrapSolInstructions` / `buildUnwrapSolInstruction` — SOL ↔ WSOL
+ * - `decodeTokenAccount` — read mint/owner/amount from token account data
+ *
+ * Usage
+ * ```ts
+ * const ixs = buildWrapSolInstructions(owner, 1_000_000n);
+ * const close = buildUnwrapSolInstruction(owner);
+ * ```
+ */
+
+import { PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+
+export const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
+export const TOKEN_2022_PROGRAM_ID = new PublicKey("TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb");
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+export const NATIVE_MINT = new PublicKey("So11111111111111111111111111111111111111112");
+
+// SPL Token instruction discriminators
+const TOKEN_IX_CLOSE_ACCOUNT = 9;
+const TOKEN_IX_TRANSFER_CHECKED = 12;
+const TOKEN_IX_SYNC_NATIVE = 17;
+// Associated Token Account instruction discriminators
+const ATA_IX_CREATE_IDEMPOTENT = 1;
+
+/**
+ * Derive the associated token account of `owner` for `mint`.
+ */
+export function getAssociatedTokenAddress(
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgramId: PublicKey = TOKEN_PROGRAM_ID
+): PublicKey {
+  const [ata] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), tokenProgramId.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return ata;
+}
+
+/**
+ * Create the ATA of (owner, mint), succeeding if it already exists.
+ */
+export function createAtaIdempotentIx(
+  payer: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgramId: PublicKey = TOKEN_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: getAssociatedTokenAddress(owner, mint, tokenProgramId), isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: tokenProgramId, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([ATA_IX_CREATE_IDEMPOTENT]),
+  });
+}
+
+/**
+ * Sync a native (WSOL) token account balance with its lamports.
+ */
+export function syncNativeIx(account: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [{ pubkey: account, isSigner: false, isWritable: true }],
+    data: Buffer.from([TOKEN_IX_SYNC_NATIVE]),
+  });
+}
+
+/**
+ * Close a token account, sending its lamports to `destination`.
+ */
+export function closeAccountIx(
+  account: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  tokenProgramId: PublicKey = TOKEN_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: tokenProgramId,
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data: Buffer.from([TOKEN_IX_CLOSE_ACCOUNT]),
+  });
+}
+
+/**
+ * Move `amount` base units between two token accounts of `mint`, checked
+ * against the mint's `decimals`.
+ */
+export function transferCheckedIx(
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  decimals: number,
+  tokenProgramId: PublicKey = TOKEN_PROGRAM_ID
+): TransactionInstruction {
+  const data = Buffer.alloc(10);
+  data.writeUInt8(TOKEN_IX_TRANSFER_CHECKED, 0);
+  data.writeBigUInt64LE(amount, 1);
+  data.writeUInt8(decimals, 9);
+  return new TransactionInstruction({
+    programId: tokenProgramId,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+}
+
+/**
+ * Wrap `lamports` SOL into the owner's WSOL ATA:
+ * create ATA (idempotent) → transfer lamports → SyncNative.
+ */
+export function buildWrapSolInstructions(
+  owner: PublicKey,
+  lamports: number | bigint
+): TransactionInstruction[] {
+  const wsolAta = getAssociatedTokenAddress(owner, NATIVE_MINT);
+  return [
+    createAtaIdempotentIx(owner, owner, NATIVE_MINT),
+    SystemProgram.transfer({ fromPubkey: owner, toPubkey: wsolAta, lamports }),
+    syncNativeIx(wsolAta),
+  ];
+}
+
+/**
+ * Unwrap: close the owner's WSOL ATA, returning all lamports to the owner.
+ */
+export function buildUnwrapSolInstruction(owner: PublicKey): TransactionInstruction {
+  return closeAccountIx(getAssociatedTokenAddress(owner, NATIVE_MINT), owner, owner);
+}
+
+/**
+ * Decode the base fields of a token account (SPL Token or Token-2022).
+ *
+ * @returns mint, owner and amount, or `null` if the data is too short
+ */
+export function decodeTokenAccount(
+  data: Uint8Array
+): { mint: PublicKey; owner: PublicKey; amount: bigint } | null {
+  if (data.length < 72) return null;
+  const buf = Buffer.from(data);
+  return {
+    mint: new PublicKey(buf.subarray(0, 32)),
+    owner: new PublicKey(buf.subarray(32, 64)),
+    amount: buf.readBigUInt64LE(64),
+  };
+}
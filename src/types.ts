@@ -1,30 +1,272 @@
 import {
   AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  TransactionError,
   TransactionInstruction,
   VersionedTransaction,
 } from "@solana/web3.js";
-import { SwapIxs } from "./lib/jupiter.schemas";
+import { Quote, SwapIxs } from "./lib/jupiter.schemas";
+import type { Step } from "./core/pipeline/Step.js";
+import type { RoundingMode, UiAmount } from "./utils/amounts.js";
 
 export type Side = "buy" | "sell";
 
-export interface MultiRouteInput {
+export type SwapMode = "ExactIn" | "ExactOut";
+
+export type UnwrapPolicy = "unwrap" | "keep-wsol";
+
+/**
+ * Jupiter routing options, per route (`MultiRouteInput`) or for the whole
+ * bundle (`BuildMultiSwapParams.routing`, overridden field by field by the route).
+ */
+export interface RoutingOptions {
+  /** Cap on the accounts the route may use — the main lever to fit several swaps in one transaction */
+  maxAccounts?: number;
+  /** Only route through these DEXes (Jupiter labels, e.g. "Raydium", "Orca V2") */
+  dexes?: string[];
+  /** Never route through these DEXes */
+  excludeDexes?: string[];
+  /** Single-hop routes only */
+  onlyDirectRoutes?: boolean;
+}
+
+/**
+ * Integrator fee taken by Jupiter on a swap (`platformFeeBps` + `feeAccount`).
+ * The fee is charged in the output mint for ExactIn, in the input mint for ExactOut.
+ */
+export interface PlatformFeeConfig {
+  /** Fee in basis points */
+  feeBps: number;
+  /**
+   * Token account receiving the fee (must hold the fee mint), or one per fee mint
+   * (mint → token account) for a bundle default: routes whose fee mint has no
+   * account are left without fee.
+   */
+  feeAccount: string | Record<string, string>;
+}
+
+/**
+ * Platform fee resolved for one route.
+ */
+export interface RoutePlatformFee {
+  /** Index in `BuildMultiSwapParams.routes` */
+  index: number;
+  feeBps: number;
+  feeAccount: string;
+  /** Mint the fee is charged in */
+  mint: string;
+  /** Fee amount from the quote (fee mint base units); set once quoted */
+  amount?: string;
+}
+
+export interface MultiRouteInput extends RoutingOptions {
   inputMint: string;
   outputMint: string;
   amount?: string;       // always base units as string
-  uiAmount?: number;     // UI units (float)
+  uiAmount?: UiAmount;   // UI units, decimal string (lossless) or number
+  /** How to round a `uiAmount` with more decimals than the mint (default "strict": reject) */
+  rounding?: RoundingMode;
   slippageBps: number;
   side?: Side;
+  /**
+   * "ExactIn" (default): `amount`/`uiAmount` is the input spent.
+   * "ExactOut": `amount`/`uiAmount` is the exact output received (output mint units).
+   */
+  swapMode?: SwapMode;
+  /**
+   * SELL only (ExactIn): sell this percentage (0 < percent ≤ 100) of the owner's
+   * `inputMint` balance, summed across all their token accounts of that mint
+   * (other accounts are first emptied into the ATA the swap spends from, when needed).
+   */
+  percent?: number | string;
+  /** SELL only (ExactIn): sell the whole balance, summed the same way as `percent` */
+  all?: boolean;
+  /** With `all`: close the emptied input token account after the swap to reclaim rent */
+  closeAccount?: boolean;
+  /** Reject the quote if its price impact exceeds this percentage (e.g. 1 = 1%) */
+  maxPriceImpactPct?: number;
+  /**
+   * Reject the quote if its guaranteed output is below this amount (output mint base units).
+   * Guaranteed output: `otherAmountThreshold` (after slippage) for ExactIn, `outAmount` for ExactOut.
+   */
+  minOutAmount?: string;
+  /** Same as `minOutAmount`, in UI units of the output mint (rounded up) */
+  minOutUiAmount?: UiAmount;
+  /** Platform fee of this route (overrides `BuildMultiSwapParams.platformFee`) */
+  platformFee?: PlatformFeeConfig;
+  /**
+   * Wallet receiving the output instead of `userPublicKey`. Its ATA of the output mint
+   * is created if missing (idempotent, rent paid by `userPublicKey`).
+   */
+  destination?: string;
+  /** Existing token account of the output mint receiving the output (exclusive with `destination`) */
+  destinationTokenAccount?: string;
+}
+
+/**
+ * A route left out of the build.
+ */
+export interface SkippedRoute {
+  index: number;
+  reason: string;
+  /** e.g. "COULD_NOT_FIND_ANY_ROUTE", "SIMULATION_FAILED", "PRICE_IMPACT_TOO_HIGH", "OUTPUT_BELOW_MINIMUM" */
+  code?: string;
+  /** Quote values that tripped a guard (`maxPriceImpactPct`, `minOutAmount`) */
+  quote?: GuardedQuoteValues;
+}
+
+/**
+ * Quote values checked by the per-route guards.
+ */
+export interface GuardedQuoteValues {
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  /** As returned by Jupiter: a fraction, "0.01" = 1% */
+  priceImpactPct: string;
+}
+
+/**
+ * How to set the (single) compute unit price of the transaction.
+ * Prices are in µLamports per compute unit.
+ */
+export type PriorityFeeStrategy =
+  /** Highest price suggested by the swap provider across routes (default) */
+  | { mode: "auto" }
+  /** Fixed price per CU */
+  | { mode: "fixed"; microLamports: number | bigint }
+  /** Spend at most `maxLamports` in priority fees, given the CU limit */
+  | { mode: "cap"; maxLamports: number | bigint }
+  /** Percentile (0-100) of recent fees paid on the writable accounts this transaction locks */
+  | {
+      mode: "percentile";
+      percentile: number;
+      minMicroLamports?: number | bigint;
+      maxMicroLamports?: number | bigint;
+    };
+
+export interface PriorityFeeDiagnostics {
+  /** Strategy used */
+  mode: PriorityFeeStrategy["mode"];
+  /** Compute unit price set on the transaction (µLamports per CU) */
+  microLamports: string;
+  /** Compute unit limit the price applies to */
+  computeUnitLimit: number;
+  /** Maximum priority fee paid (lamports) = price × limit */
+  maxPriorityFeeLamports: string;
+}
+
+/**
+ * How to set the compute unit limit of the transaction.
+ */
+export type ComputeUnitLimitStrategy =
+  /** Highest limit suggested by the swap provider across routes, else 1,000,000 (default) */
+  | { mode: "provider" }
+  /** Fixed limit */
+  | { mode: "fixed"; units: number }
+  /** Simulate the assembled transaction and use `unitsConsumed × margin` (default margin 1.1) */
+  | { mode: "simulate"; margin?: number };
+
+export interface ComputeUnitsDiagnostics {
+  /** Strategy used */
+  mode: ComputeUnitLimitStrategy["mode"];
+  /** Compute unit limit set on the transaction */
+  units: number;
+  /** Units consumed in simulation ("simulate" only) */
+  simulatedUnits?: number;
+  /** Simulation error, if the sizing simulation failed (limit left unchanged) */
+  simulationError?: unknown;
+}
+
+/**
+ * SOL needed by a transaction vs the wallet balance (lamports as strings).
+ */
+export interface BalanceCheckDiagnostics {
+  balance: string;
+  /** `wrappedLamports + fees + rent` */
+  required: string;
+  wrappedLamports: string;
+  /** Signature fee + maximum priority fee */
+  fees: string;
+  /** Rent of the token accounts the transaction creates */
+  rent: string;
+  /** Token accounts (base58) that do not exist yet */
+  newAccounts: string[];
+}
+
+/**
+ * Accounts brought into the transaction by one route.
+ */
+export interface RouteAccountUsage {
+  /** Index in `BuildMultiSwapParams.routes` */
+  index: number;
+  /** Distinct accounts (programs included) referenced by the route's instructions */
+  accounts: number;
+  /** Those not used by any other instruction of the transaction */
+  exclusiveAccounts: number;
+}
+
+/**
+ * One compilation of `onTooLarge: "requote"`.
+ */
+export interface SizeAttempt {
+  /** Serialized size in bytes (-1 if serialization overflowed) */
+  txSize: number;
+  routes: RouteAccountUsage[];
+  /** Routing tightened for the next attempt (absent on the last one) */
+  requoted?: { index: number; maxAccounts?: number; onlyDirectRoutes?: boolean };
 }
 
 export interface BuildMultiSwapDiagnostics {
   /** Indices of skipped orders and reasons */
-  skipped: Array<{ index: number; reason: string; code?: string }>;
+  skipped: SkippedRoute[];
   /** Number of executable orders */
   executedCount: number;
   /** Number of requested orders */
   requestedCount: number;
-  /** Total lamports wrapped (SOL → WSOL) */
+  /** Total lamports wrapped (SOL → WSOL); exact as a string in `balanceCheck.wrappedLamports` */
   wrappedLamports: number;
+  /** Indices (into `BuildMultiSwapParams.routes`) of the routes included in this transaction */
+  routeIndices: number[];
+  /** Lookup tables returned by the provider, before dedup */
+  altBefore: number;
+  /** Lookup tables actually used, after dedup */
+  altAfter: number;
+  /** Lookup tables removed by dedup */
+  altSaved: number;
+  /** Serialized transaction size (bytes) */
+  txSize: number;
+  /** Whether the transaction exceeds the packet size limit */
+  overLimit: boolean;
+  /** Compute unit price applied to the transaction */
+  priorityFee?: PriorityFeeDiagnostics;
+  /** Compute unit limit applied to the transaction */
+  computeUnits?: ComputeUnitsDiagnostics;
+  /** SOL requirement vs wallet balance (`checkBalance`) */
+  balanceCheck?: BalanceCheckDiagnostics;
+  /** Platform fees of the routes in this transaction (`platformFee`), with the quoted amounts */
+  platformFees?: RoutePlatformFee[];
+  /** Compilations made by `onTooLarge: "requote"`, the returned one last (only when re-quoting happened) */
+  sizeAttempts?: SizeAttempt[];
+  /**
+   * Originating route index of each compiled instruction (same order as the
+   * message instructions); `null` for shared instructions (compute budget,
+   * SOL wrap/unwrap, user instructions).
+   */
+  instructionRoutes: Array<number | null>;
+}
+
+/**
+ * One executed route of a build: normalized input + the quote it was built from.
+ */
+export interface BuildMultiSwapLeg {
+  /** Index in `BuildMultiSwapParams.routes` */
+  index: number;
+  /** Normalized route (`amount` always set, base units) */
+  route: MultiRouteInput;
+  /** Quote used for the swap instructions */
+  quote: Quote;
 }
 
 export interface BuildMultiSwapResult {
@@ -32,10 +274,32 @@ export interface BuildMultiSwapResult {
   unsignedTx: VersionedTransaction;
   /** Transaction serialized in base64 (ready for wallet signing) */
   base64: string;
+  /** Executed routes, in route order */
+  legs: BuildMultiSwapLeg[];
   /** Diagnostics for UI / telemetry */
   diagnostics: BuildMultiSwapDiagnostics;
 }
 
+export interface BuildMultiSwapBatchDiagnostics {
+  /** Indices of skipped orders and reasons */
+  skipped: SkippedRoute[];
+  /** Number of executable orders (across all transactions) */
+  executedCount: number;
+  /** Number of requested orders */
+  requestedCount: number;
+  /** Route indices packed into each transaction, in transaction order */
+  groups: number[][];
+  /** SOL needed by every transaction together vs the wallet balance (`checkBalance` only) */
+  balanceCheck?: BalanceCheckDiagnostics;
+}
+
+export interface BuildMultiSwapBatchResult {
+  /** Unsigned transactions, in execution order (each with its own diagnostics) */
+  transactions: BuildMultiSwapResult[];
+  /** Diagnostics for the whole batch */
+  diagnostics: BuildMultiSwapBatchDiagnostics;
+}
+
 export interface BuildMultiSwapParams {
   /**
    * List of swap routes. Each route must define `side`, `inputMint`, `outputMint`
@@ -46,17 +310,246 @@ export interface BuildMultiSwapParams {
   userPublicKey: string;
   /** Behavior when Jupiter cannot find a route (default: "skip") */
   onRouteNotFound?: "skip" | "fail";
+  /** Default routing options of every route (a route's own options take precedence) */
+  routing?: RoutingOptions;
+  /** Default platform fee of every route (a route's own `platformFee` takes precedence) */
+  platformFee?: PlatformFeeConfig;
+  /**
+   * Simulate the built transaction before returning it (default: not simulated):
+   * - "prune": drop the route whose instruction failed and rebuild, up to `maxPruneRounds` times
+   *   (pruned routes appear in `diagnostics.skipped` with code "SIMULATION_FAILED")
+   * - "fail": throw `SimulationFailedError`
+   */
+  onSimulationFailure?: "prune" | "fail";
+  /**
+   * Behavior when a quote violates its route's `maxPriceImpactPct` / `minOutAmount`
+   * (default: "skip"). Skipped routes carry the offending quote values in `diagnostics.skipped`.
+   */
+  onGuardViolation?: "skip" | "fail";
+  /** Maximum number of routes pruned by `onSimulationFailure: "prune"` (default: 3) */
+  maxPruneRounds?: number;
+  /**
+   * When the compiled transaction exceeds the packet size limit (default: "fail"):
+   * - "fail": throw `TransactionTooLargeError`
+   * - "requote": re-quote the heaviest route with a lower `maxAccounts` (down to
+   *   `minMaxAccounts`), then direct-only, and rebuild until the bundle fits
+   */
+  onTooLarge?: "fail" | "requote";
+  /** Floor of `maxAccounts` for `onTooLarge: "requote"` (default: 16) */
+  minMaxAccounts?: number;
+  /** Maximum rebuilds by `onTooLarge: "requote"` (default: 8) */
+  maxRequotes?: number;
+  /**
+   * Check the wallet holds enough SOL for wrapped lamports + fees + rent of new
+   * token accounts before quoting, and once quoted for the maximum input of
+   * ExactOut SOL-funded buys (default: true)
+   */
+  checkBalance?: boolean;
+  /**
+   * What to do with the WSOL account once every swap touching it has run
+   * (buys funded with SOL, sells into SOL, or both):
+   * - "unwrap" (default): close it at the end of the transaction, SOL goes back to the user
+   * - "keep-wsol": leave the WSOL account (and its balance) in place
+   */
+  unwrapPolicy?: UnwrapPolicy;
+  /** Compute unit price strategy (default: `{ mode: "auto" }`) */
+  priorityFee?: PriorityFeeStrategy;
+  /** Compute unit limit strategy (default: `{ mode: "provider" }`) */
+  computeUnitLimit?: ComputeUnitLimitStrategy;
+  /** Swap provider used for quotes and swap-instructions (default: `JupiterProvider`) */
+  provider?: SwapProvider;
+  /** RPC connection used by every pipeline step (default: `getConnection()`) */
+  connection?: Connection;
+  /** Instructions placed first in the transaction (e.g. memo with an order ID) */
+  preInstructions?: TransactionInstruction[];
+  /** Instructions placed last, after SOL unwrap (e.g. fee transfer, own program call) */
+  postInstructions?: TransactionInstruction[];
+  /**
+   * Customize the pipeline: receives the default steps and returns the steps to run.
+   * Use it to insert, replace or remove steps.
+   */
+  steps?: (defaults: Step[]) => Step[];
+}
+
+/**
+ * Classified cause of a failed simulation.
+ */
+export type SimulationFailureReason =
+  | "slippage-exceeded"
+  | "insufficient-funds"
+  | "account-not-found"
+  | "compute-exhausted"
+  | "unknown";
+
+export interface TokenBalanceChange {
+  /** Token account (base58) */
+  account: string;
+  /** Mint (base58) */
+  mint: string;
+  /** Balance before / after, base units */
+  pre: string;
+  post: string;
+  /** post - pre, base units (signed) */
+  delta: string;
+}
+
+export interface SimulationReport {
+  /** Whether the simulation succeeded */
+  ok: boolean;
+  /** Raw `TransactionError`, if any */
+  err: unknown;
+  /** Classified failure, if any */
+  failure?: {
+    reason: SimulationFailureReason;
+    /** Top-level instruction that failed, if known */
+    instructionIndex?: number;
+    /** Index in `BuildMultiSwapParams.routes` of the route that failed, if known */
+    routeIndex?: number;
+    /** Most relevant log line / error detail */
+    message: string;
+  };
+  /** Total compute units consumed */
+  unitsConsumed?: number;
+  /** Compute units consumed per route (top-level instructions of that route) */
+  routeComputeUnits: Array<{ index: number; unitsConsumed: number }>;
+  /** Token balance changes on the user's accounts for the routes' mints */
+  balanceChanges: TokenBalanceChange[];
+  /** Lamport change of the user's wallet (signed, includes the fee) */
+  lamportsDelta?: string;
+  /** Raw program logs */
+  logs: string[];
+}
+
+/**
+ * Fee and rent breakdown of a landed transaction (lamports as strings).
+ */
+export interface TransactionCosts {
+  /** Total fee paid (`meta.fee`) */
+  fee: string;
+  /** Signature fee (5000 lamports per signature) */
+  baseFee: string;
+  /** Priority fee (`fee - baseFee`) */
+  priorityFee: string;
+  /** Compute unit price set by the transaction, µLamports per CU */
+  computeUnitPrice?: string;
+  computeUnitsConsumed?: number;
+  /** Rent locked in accounts created by the transaction (e.g. new ATAs) */
+  rent: string;
+  /** Rent returned by accounts closed by the transaction */
+  rentRefunded: string;
+}
+
+/**
+ * Realized fill of one route.
+ */
+export interface RouteSettlement {
+  /** Index in `BuildMultiSwapParams.routes` */
+  index: number;
+  inputMint: string;
+  outputMint: string;
+  swapMode: SwapMode;
+  /** Quoted amounts (base units) */
+  quotedIn: string;
+  quotedOut: string;
+  /** Realized amounts (base units), from the user's pre/post balances */
+  actualIn: string;
+  actualOut: string;
+  /**
+   * Realized slippage vs quote, in bps (positive = worse than quoted):
+   * output shortfall for ExactIn, input overspend for ExactOut
+   */
+  slippageBps: number;
+  /**
+   * `true` if a mint of this route is shared with other routes: its balance change
+   * is split between them (fixed legs at their quote, the rest pro rata)
+   */
+  shared: boolean;
+}
+
+export interface SettlementReport {
+  signature: string;
+  slot: number;
+  /** Transaction error, `null` on success */
+  err: TransactionError | null;
+  routes: RouteSettlement[];
+  /** Net change of the user's balance per mint (SOL and WSOL merged under the WSOL mint) */
+  balanceChanges: Array<{ mint: string; delta: string }>;
+  costs: TransactionCosts;
+}
+
+/**
+ * Parameters of `quoteMultiSwap`: the quoting subset of `BuildMultiSwapParams`.
+ */
+export type QuoteMultiSwapParams = Pick<
+  BuildMultiSwapParams,
+  | "routes"
+  | "userPublicKey"
+  | "onRouteNotFound"
+  | "onGuardViolation"
+  | "routing"
+  | "platformFee"
+  | "provider"
+  | "connection"
+>;
+
+/**
+ * Quote of one route, as previewed by `quoteMultiSwap` (base units as strings).
+ */
+export interface RouteQuotePreview {
+  /** Index in `routes` */
+  index: number;
+  inputMint: string;
+  outputMint: string;
+  swapMode: SwapMode;
+  inAmount: string;
+  outAmount: string;
+  /** Minimum received: `otherAmountThreshold` for ExactIn (after slippage), `outAmount` for ExactOut */
+  minOutAmount: string;
+  /** Maximum spent: `otherAmountThreshold` for ExactOut (after slippage), `inAmount` for ExactIn */
+  maxInAmount: string;
+  /** As returned by Jupiter: a fraction, "0.01" = 1% */
+  priceImpactPct: string;
+  /** AMM labels of the route plan, in order, without duplicates */
+  labels: string[];
+  /** Platform fee taken by the route (output mint for ExactIn, input mint for ExactOut) */
+  platformFee?: { amount: string; feeBps: number; mint: string };
+  /** Raw quote */
+  quote: Quote;
+}
+
+/**
+ * Expected outputs summed per output mint.
+ */
+export interface OutputMintTotal {
+  mint: string;
+  outAmount: string;
+  minOutAmount: string;
+  /** Routes paying out in this mint */
+  routeIndices: number[];
+}
+
+export interface MultiSwapQuote {
+  /** Quoted routes, in route order */
+  routes: RouteQuotePreview[];
+  /** Totals per output mint, in order of first appearance */
+  totals: OutputMintTotal[];
+  /** Routes not quoted (no route found, guard violation) */
+  skipped: SkippedRoute[];
+  /** Number of requested routes */
+  requestedCount: number;
 }
 
 /**
  * Parameters for requesting a quote from Jupiter.
  */
-export interface QuoteParams {
+export interface QuoteParams extends RoutingOptions {
   inputMint: string;
   outputMint: string;
   amount: string; // base units, must always be string
   slippageBps: number;
-  swapMode: "ExactIn" | "ExactOut";
+  swapMode: SwapMode;
+  /** Integrator fee, in bps (requires `feeAccount` on swap-instructions) */
+  platformFeeBps?: number;
 }
 
 /**
@@ -68,29 +561,112 @@ export interface SwapInstructionParams {
   wrapAndUnwrapSol?: boolean;
   dynamicComputeUnitLimit?: boolean;
   prioritizationFeeLamports?: number | "auto";
+  /** Token account collecting the platform fee set on the quote */
+  feeAccount?: string;
+  /** Token account receiving the output (default: the user's ATA) */
+  destinationTokenAccount?: string;
 }
 
 /**
  * Provider abstraction for Jupiter API.
  */
 export interface SwapProvider {
-  getQuote(params: QuoteParams): Promise<any>;
+  getQuote(params: QuoteParams): Promise<Quote>;
   getSwapInstructions(params: SwapInstructionParams): Promise<SwapIxs>;
 }
 
+/**
+ * Anything able to sign a transaction for one public key
+ * (local keypair, wallet adapter, remote KMS/HSM signer, ...).
+ */
+export interface TransactionSigner {
+  publicKey: PublicKey;
+  /** Return the transaction signed by `publicKey` (same message) */
+  signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction>;
+}
+
+/** Commitment levels `execute` reports, in order */
+export type ExecutionCommitment = "processed" | "confirmed" | "finalized";
+
+/**
+ * Progress of `execute`:
+ * - "sent": (re)broadcast, `attempt` starts at 1
+ * - "processed" / "confirmed" / "finalized": commitment reached at `slot`
+ * - "expired": blockhash expired before the transaction reached the target commitment
+ */
+export type ExecutionStatusEvent =
+  | { status: "sent"; signature: string; attempt: number }
+  | { status: ExecutionCommitment; signature: string; slot: number }
+  | { status: "expired"; signature: string; blockHeight: number };
+
+export interface ExecutionResult {
+  signature: string;
+  /** Slot the transaction landed in */
+  slot: number;
+  /** Highest commitment observed (at least the requested one) */
+  commitment: ExecutionCommitment;
+  /** Fee paid, in lamports (string); undefined if the transaction could not be fetched */
+  fee?: string;
+  /** Compute units consumed; undefined if not reported */
+  computeUnitsConsumed?: number;
+  /** Transaction error, `null` on success (a failed transaction still lands and pays fees) */
+  err: TransactionError | null;
+}
+
 /**
  * Pipeline context passed between steps.
  */
 export interface StepContext {
   routes: MultiRouteInput[];
   provider: SwapProvider;
+  connection: Connection;
   userPublicKey: string;
   onRouteNotFound: "skip" | "fail";
-  skipped: Array<{ index: number; reason: string; code?: string }>;
-  swapPayloads: Array<{ i: number; ixs: any }>;
+  onGuardViolation: "skip" | "fail";
+  routing: RoutingOptions;
+  platformFee?: PlatformFeeConfig;
+  /** Platform fee of each route that has one (set by `PlatformFeeStep`), by route index */
+  platformFees: Map<number, RoutePlatformFee>;
+  unwrapPolicy: UnwrapPolicy;
+  priorityFee: PriorityFeeStrategy;
+  /** Compute unit price actually applied (set by `PriorityFeeStep`) */
+  priorityFeeApplied?: PriorityFeeDiagnostics;
+  computeUnitLimit: ComputeUnitLimitStrategy;
+  /** Compute unit limit actually applied (set by `ComputeUnitLimitStep`) */
+  computeUnitsApplied?: ComputeUnitsDiagnostics;
+  checkBalance: boolean;
+  /** SOL requirement vs wallet balance (set by `PreflightBalanceStep`, replaced by `BalanceCheckStep`) */
+  balanceCheck?: BalanceCheckDiagnostics;
+  skipped: SkippedRoute[];
+  /** Routes excluded before quoting (failed in simulation in a previous round) */
+  pruned: SkippedRoute[];
+  /** Quotes of the routes left after skipping (set by `QuoteStep`), in route order */
+  quotes: Array<{ i: number; quote: Quote }>;
+  swapPayloads: Array<{ i: number; quote: Quote; ixs: any }>;
+  /**
+   * Quotes and swap-instructions kept from a previous build attempt, by route index;
+   * `QuoteStep` / `SwapStep` reuse them while the route amount is unchanged
+   */
+  reusedSwaps: Map<number, { amount: string; quote: Quote; ixs: SwapIxs }>;
   wrapInstrs: TransactionInstruction[];
   cleanupInstr: TransactionInstruction | null;
+  preInstructions: TransactionInstruction[];
+  postInstructions: TransactionInstruction[];
+  /**
+   * Transfers of the input mint's other token accounts into the ATA a sell spends
+   * from (with its creation if missing), by route index; routes selling the same
+   * mint share one list
+   */
+  consolidateInstrs: Map<number, TransactionInstruction[]>;
+  /** Close-account instructions for emptied input accounts, by route index */
+  closeInstrs: Map<number, TransactionInstruction>;
+  /** Destination ATA creations of routes with a `destination`, by route index */
+  destinationInstrs: Map<number, TransactionInstruction>;
+  /** Final, ordered instruction list (set by `AssembleInstructionsStep`) */
+  instructions: TransactionInstruction[];
+  /** Originating route index of route-specific instructions */
+  instructionRoutes: Map<TransactionInstruction, number>;
   altAccounts: AddressLookupTableAccount[];
-  wrappedLamports: number;
+  wrappedLamports: bigint;
   result?: BuildMultiSwapResult;
 }
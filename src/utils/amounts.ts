@@ -4,37 +4,189 @@
  * Amount conversion utilities (UI ↔ base units)
  * ----------------------------------------------------------------------------
  *
- * Provides helpers for converting user-facing numeric amounts to on-chain
- * integer base units (strings), consistent with Solana conventions.
+ * Provides exact (no floating point) helpers for converting user-facing
+ * decimal amounts to on-chain integer base units, consistent with Solana
+ * conventions. All arithmetic is done on decimal strings and `bigint`.
  *
- * - `uiToBaseUnits` — converts a UI amount (e.g. 1.23 USDC) to base units using mint decimals
+ * - `parseUiAmount` — UI amount (e.g. "1.23" USDC) → `bigint` base units, with rounding mode
+ * - `uiToBaseUnits` — same, returned as a base-units string
  * - `solToLamports` — shorthand for SOL → lamports conversion (9 decimals)
+ * - `parseBaseUnits` — validate a base-units integer (string | number | bigint) → `bigint`
+ *
+ * Rounding modes (applied when the input has more decimals than the mint):
+ * - "strict" (default) — throw an `AmountError`
+ * - "floor" — truncate extra digits (never spends more than asked)
+ * - "ceil" — round up to the next base unit
+ * - "half-up" — round to nearest, ties away from zero
+ *
+ * Amounts are token amounts: anything above u64 (`MAX_U64`) is rejected, and
+ * so are exponents beyond ±64 (e.g. "1e5000000").
  *
  * Usage
  * ```ts
- * const lamports = solToLamports(0.5); // "500000000"
+ * const lamports = solToLamports("0.5"); // "500000000"
  * const usdcBase = uiToBaseUnits("1.25", 6); // "1250000"
+ * parseUiAmount("0.1234567", 6, "floor"); // 123456n
  * ```
  */
 
+import { InvalidRouteError, MultiSwapErrorContext } from "../errors.js";
+
+export type RoundingMode = "strict" | "floor" | "ceil" | "half-up";
+
+/** A user-facing amount: decimal string (preferred, lossless) or number. */
+export type UiAmount = number | string;
+
+/**
+ * Raised on invalid amounts: non-numeric input, negative values,
+ * or too many decimal places in "strict" mode.
+ */
+export class AmountError extends InvalidRouteError {
+  constructor(
+    message: string,
+    public readonly input: unknown,
+    context: MultiSwapErrorContext = {}
+  ) {
+    super(message, context);
+    this.name = "AmountError";
+  }
+}
+
+/** Largest token amount (u64) */
+export const MAX_U64 = 2n ** 64n - 1n;
+
+/** Largest exponent accepted in scientific notation */
+const MAX_EXPONENT = 64;
+// Decimal digits of MAX_U64
+const MAX_U64_DIGITS = MAX_U64.toString().length;
+
+const DECIMAL_RE = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/**
+ * Convert a user-facing amount into base units, exactly.
+ *
+ * Numbers are converted through their shortest round-trip decimal
+ * representation (`String(n)`), so `0.1` is read as "0.1", not 0.1000000000000000055….
+ *
+ * @param ui - Amount as decimal string or number (e.g. "1.25", 1.25, "1e-3")
+ * @param decimals - Mint decimals (e.g. 6 for USDC)
+ * @param rounding - What to do with digits beyond `decimals` (default "strict")
+ * @returns Integer amount in base units
+ * @throws AmountError on non-numeric, negative, over-precise or above-u64 input
+ */
+export function parseUiAmount(ui: UiAmount, decimals: number, rounding: RoundingMode = "strict"): bigint {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new AmountError(`Invalid decimals: ${decimals}`, decimals);
+  }
+  if (typeof ui === "number" && !Number.isFinite(ui)) {
+    throw new AmountError(`Amount is not a finite number: ${ui}`, ui);
+  }
+
+  const text = String(ui).trim();
+  const m = DECIMAL_RE.exec(text);
+  if (!m || (!m[2] && !m[3])) {
+    throw new AmountError(`Amount is not numeric: "${text}"`, ui);
+  }
+
+  const [, sign, intPart, fracPart = "", expPart] = m;
+  const exponent = Number(expPart ?? 0);
+  if (Math.abs(exponent) > MAX_EXPONENT) {
+    throw new AmountError(`Amount exponent out of range (±${MAX_EXPONENT}): "${text}"`, ui);
+  }
+
+  // Shift the decimal point by the exponent: digits * 10^(exp - fracLen)
+  const digits = (intPart + fracPart).replace(/^0+(?=\d)/, "") || "0";
+  const scale = fracPart.length - exponent; // digits after the point
+
+  if (sign === "-" && /[1-9]/.test(digits)) {
+    throw new AmountError(`Amount must not be negative: "${text}"`, ui);
+  }
+
+  // Reject before any big arithmetic: integer digits alone already exceed u64
+  const shift = decimals - scale;
+  if (digits !== "0" && digits.length + shift > MAX_U64_DIGITS) {
+    throw new AmountError(`Amount "${text}" exceeds the u64 maximum in base units`, ui);
+  }
+  if (shift >= 0) {
+    return checkU64(BigInt(digits) * 10n ** BigInt(shift), ui);
+  }
+
+  // More decimals than the mint supports. Beyond one digit more than `digits`,
+  // a larger divisor changes neither the quotient (0) nor the rounding.
+  const divisor = 10n ** BigInt(Math.min(-shift, digits.length + 1));
+  const value = BigInt(digits);
+  const quotient = value / divisor;
+  const remainder = value % divisor;
+
+  checkU64(quotient, ui);
+  if (remainder === 0n) return quotient;
+
+  switch (rounding) {
+    case "floor":
+      return quotient;
+    case "ceil":
+      return checkU64(quotient + 1n, ui);
+    case "half-up":
+      return checkU64(remainder * 2n >= divisor ? quotient + 1n : quotient, ui);
+    default:
+      throw new AmountError(
+        `Amount "${text}" has more than ${decimals} decimal places`,
+        ui
+      );
+  }
+}
+
 /**
  * Convert a user-facing amount into base units.
  *
  * @param ui - Amount as number or string (e.g. "1.25")
  * @param decimals - Mint decimals (e.g. 6 for USDC)
+ * @param rounding - Rounding mode for extra decimals (default "strict")
  * @returns String representing integer amount in base units
  */
-export function uiToBaseUnits(ui: number | string, decimals: number): string {
-  const n = typeof ui === "string" ? parseFloat(ui) : ui;
-  return BigInt(Math.floor(n * 10 ** decimals)).toString();
+export function uiToBaseUnits(ui: UiAmount, decimals: number, rounding: RoundingMode = "strict"): string {
+  return parseUiAmount(ui, decimals, rounding).toString();
 }
 
 /**
  * Convert SOL amount to lamports (9 decimals).
  *
  * @param sol - Amount of SOL (number or string)
+ * @param rounding - Rounding mode for extra decimals (default "strict")
  * @returns String representing lamports
  */
-export function solToLamports(sol: number | string) {
-  return uiToBaseUnits(sol, 9);
+export function solToLamports(sol: UiAmount, rounding: RoundingMode = "strict") {
+  return uiToBaseUnits(sol, 9, rounding);
+}
+
+/**
+ * Validate an amount already expressed in base units.
+ *
+ * @param amount - Non-negative integer (string, safe-integer number or bigint)
+ * @returns The amount as `bigint`
+ * @throws AmountError if not a non-negative integer, or above u64
+ */
+export function parseBaseUnits(amount: string | number | bigint): bigint {
+  if (typeof amount === "bigint") {
+    if (amount < 0n) throw new AmountError(`Amount must not be negative: ${amount}`, amount);
+    return checkU64(amount, amount);
+  }
+  if (typeof amount === "number" && !Number.isSafeInteger(amount)) {
+    throw new AmountError(`Base-unit amount must be a safe integer: ${amount}`, amount);
+  }
+  const text = String(amount).trim();
+  if (!/^\d+$/.test(text)) {
+    throw new AmountError(`Base-unit amount must be a non-negative integer: "${text}"`, amount);
+  }
+  return checkU64(BigInt(text), amount);
+}
+
+/**
+ * The amount itself, if it fits in a u64.
+ */
+function checkU64(value: bigint, input: unknown): bigint {
+  if (value > MAX_U64) {
+    throw new AmountError(`Amount exceeds the u64 maximum (${MAX_U64}): ${value}`, input);
+  }
+  return value;
 }
@@ -0,0 +1,89 @@
+// src/utils/computeBudget.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Compute budget instruction helpers
+ * ----------------------------------------------------------------------------
+ *
+ * Read / replace `SetComputeUnitLimit` and `SetComputeUnitPrice` instructions
+ * in an instruction list, without any RPC.
+ *
+ * Usage
+ * ```ts
+ * const units = getComputeUnitLimit(ixs); // e.g. 400_000
+ * const price = getComputeUnitPrice(ixs); // µLamports per CU (bigint)
+ * ```
+ */
+
+import { ComputeBudgetProgram, TransactionInstruction } from "@solana/web3.js";
+
+/** Hard cap on compute units per transaction */
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+// ComputeBudget instruction discriminators
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+
+function isComputeBudget(ix: TransactionInstruction, tag: number): boolean {
+  return ix.programId.equals(ComputeBudgetProgram.programId) && ix.data[0] === tag;
+}
+
+export function isSetComputeUnitLimit(ix: TransactionInstruction): boolean {
+  return isComputeBudget(ix, SET_COMPUTE_UNIT_LIMIT) && ix.data.length >= 5;
+}
+
+export function isSetComputeUnitPrice(ix: TransactionInstruction): boolean {
+  return isComputeBudget(ix, SET_COMPUTE_UNIT_PRICE) && ix.data.length >= 9;
+}
+
+/**
+ * Compute unit limit requested by the instruction list, if any.
+ */
+export function getComputeUnitLimit(ixs: TransactionInstruction[]): number | undefined {
+  const ix = ixs.find(isSetComputeUnitLimit);
+  return ix ? Buffer.from(ix.data).readUInt32LE(1) : undefined;
+}
+
+/**
+ * Compute unit price (µLamports per CU) requested by the instruction list, if any.
+ */
+export function getComputeUnitPrice(ixs: TransactionInstruction[]): bigint | undefined {
+  const ix = ixs.find(isSetComputeUnitPrice);
+  return ix ? Buffer.from(ix.data).readBigUInt64LE(1) : undefined;
+}
+
+/**
+ * Replace every SetComputeUnitLimit with a single one (placed where the first one was,
+ * or at the front if there was none).
+ */
+export function withComputeUnitLimit(ixs: TransactionInstruction[], units: number): TransactionInstruction[] {
+  return replaceOne(ixs, isSetComputeUnitLimit, ComputeBudgetProgram.setComputeUnitLimit({ units }));
+}
+
+/**
+ * Replace every SetComputeUnitPrice with a single one (placed where the first one was,
+ * or right after the compute unit limit if there was none).
+ */
+export function withComputeUnitPrice(
+  ixs: TransactionInstruction[],
+  microLamports: bigint
+): TransactionInstruction[] {
+  return replaceOne(ixs, isSetComputeUnitPrice, ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+}
+
+function replaceOne(
+  ixs: TransactionInstruction[],
+  match: (ix: TransactionInstruction) => boolean,
+  replacement: TransactionInstruction
+): TransactionInstruction[] {
+  // Nothing matches before the first match, so its index is the same in `rest`
+  let at = ixs.findIndex(match);
+  const rest = ixs.filter((ix) => !match(ix));
+
+  if (at < 0) {
+    // Keep compute budget instructions together
+    const limitAt = rest.findIndex(isSetComputeUnitLimit);
+    at = limitAt >= 0 ? limitAt + 1 : 0;
+  }
+
+  return [...rest.slice(0, at), replacement, ...rest.slice(at)];
+}
@@ -0,0 +1,76 @@
+// tests/amounts.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Amount Parsing Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Unit tests for the exact decimal → base units conversion.
+ *
+ * - Verifies conversions that float math gets wrong (9-decimal tokens)
+ * - Verifies rounding modes when the input has too many decimals
+ * - Verifies validation errors (negative, non-numeric, over-precise)
+ * - Verifies the u64 cap and the exponent bound
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  AmountError,
+  MAX_U64,
+  parseBaseUnits,
+  parseUiAmount,
+  solToLamports,
+  uiToBaseUnits,
+} from "../src/utils/amounts.js";
+
+describe("parseUiAmount", () => {
+  it("converts exactly, without float drift", () => {
+    expect(solToLamports(0.29)).toBe("290000000"); // Math.floor(0.29 * 1e9) = 289999999
+    expect(solToLamports("1.000000001")).toBe("1000000001");
+    expect(uiToBaseUnits("123456789.123456789", 9)).toBe("123456789123456789");
+    expect(uiToBaseUnits(3115.37591, 6)).toBe("3115375910");
+    expect(parseUiAmount("1e-3", 6)).toBe(1000n);
+    expect(parseUiAmount(".5", 2)).toBe(50n);
+    expect(parseUiAmount("0", 9)).toBe(0n);
+  });
+
+  it("applies rounding modes to extra decimals", () => {
+    expect(() => parseUiAmount("0.1234567", 6)).toThrow(AmountError);
+    expect(parseUiAmount("0.1234567", 6, "floor")).toBe(123456n);
+    expect(parseUiAmount("0.1234561", 6, "ceil")).toBe(123457n);
+    expect(parseUiAmount("0.1234565", 6, "half-up")).toBe(123457n);
+    expect(parseUiAmount("0.1234564", 6, "half-up")).toBe(123456n);
+    expect(parseUiAmount("1.2300000", 2)).toBe(123n); // trailing zeros are exact
+  });
+
+  it("rejects invalid input", () => {
+    expect(() => parseUiAmount("-1", 6)).toThrow(/negative/);
+    expect(() => parseUiAmount("abc", 6)).toThrow(/not numeric/);
+    expect(() => parseUiAmount("", 6)).toThrow(AmountError);
+    expect(() => parseUiAmount(NaN, 6)).toThrow(AmountError);
+    expect(() => parseUiAmount(Infinity, 6)).toThrow(AmountError);
+  });
+
+  it("caps amounts at u64 and bounds the exponent", () => {
+    expect(parseUiAmount("18446744073.709551615", 9)).toBe(MAX_U64);
+    expect(() => parseUiAmount("18446744073.709551616", 9)).toThrow(/u64/);
+    expect(() => parseUiAmount("18446744073.7095516151", 9, "ceil")).toThrow(/u64/);
+    expect(() => parseUiAmount("1e30", 0)).toThrow(/u64/);
+    expect(() => parseUiAmount("1e5000000", 6)).toThrow(/exponent/);
+    expect(() => parseUiAmount("1e-65", 6, "floor")).toThrow(/exponent/);
+    expect(parseUiAmount("1e-60", 6, "ceil")).toBe(1n);
+    expect(parseUiAmount("5e-60", 6, "half-up")).toBe(0n);
+  });
+});
+
+describe("parseBaseUnits", () => {
+  it("accepts non-negative integers only", () => {
+    expect(parseBaseUnits("1000")).toBe(1000n);
+    expect(parseBaseUnits(42)).toBe(42n);
+    expect(() => parseBaseUnits("1.5")).toThrow(AmountError);
+    expect(() => parseBaseUnits("-5")).toThrow(AmountError);
+    expect(() => parseBaseUnits(2 ** 60)).toThrow(AmountError);
+    expect(parseBaseUnits(MAX_U64.toString())).toBe(MAX_U64);
+    expect(() => parseBaseUnits((MAX_U64 + 1n).toString())).toThrow(/u64/);
+    expect(() => parseBaseUnits(MAX_U64 + 1n)).toThrow(/u64/);
+  });
+});
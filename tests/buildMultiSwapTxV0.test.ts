@@ -0,0 +1,653 @@
+// tests/buildMultiSwapTxV0.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * buildMultiSwapTxV0 Pipeline Tests
+ * ----------------------------------------------------------------------------
+ *
+ * End-to-end pipeline tests run fully offline, with an injected fake
+ * `SwapProvider` and a fake `Connection`.
+ *
+ * - Verifies provider/connection injection reaches every step
+ * - Verifies SOL wrap sizing (ExactIn input, ExactOut maximum input) and
+ *   instruction ordering (wrap → swaps → unwrap)
+ * - Verifies a sell-only bundle into SOL unwraps once, and not with "keep-wsol"
+ * - Verifies `onRouteNotFound: "skip"` diagnostics
+ * - Verifies user steps and pre/post instruction placement
+ * - Verifies percent / sell-all against the balance, and oversold mints
+ * - Verifies balances are summed across the owner's token accounts, the others
+ *   being emptied into the ATA before the swap when needed
+ * - Verifies a single CU price is set from the priority fee strategy
+ * - Verifies the CU limit is sized from simulation
+ * - Verifies routes failing in simulation are pruned (or fail the build)
+ * - Verifies typed errors carry the code, route index and step
+ * - Verifies amounts resolving to zero base units are rejected before quoting
+ * - Verifies the SOL balance check (wrap + fees + rent of new ATAs) before quoting,
+ *   and once quoted for the maximum input of ExactOut SOL-funded buys
+ * - Verifies price impact / minimum output guards (skip or fail)
+ * - Verifies routing options (bundle default, per-route override) reach the provider
+ * - Verifies oversized bundles are re-quoted with tighter routing until they fit,
+ *   one route at a time, and pruning rebuilds keep that routing
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { buildMultiSwapTxV0 } from "../src/core/buildMultiSwapTxV0.js";
+import { MultiSwapError, SimulationFailedError } from "../src/errors.js";
+import type { MultiRouteInput, PriorityFeeStrategy, QuoteParams, SwapProvider } from "../src/types.js";
+import {
+  FAKE_DEX,
+  SOL,
+  TOKEN_PROGRAM,
+  ata,
+  fakeConnection,
+  fakeProvider,
+  fakeQuote,
+  programIds,
+  user,
+} from "./helpers.js";
+
+const MINT_A = Keypair.generate().publicKey.toBase58();
+const MINT_B = Keypair.generate().publicKey.toBase58(); // no route
+const MEMO = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+
+const provider = (quotes: QuoteParams[] = []) => fakeProvider({ quotes, noRoute: [MINT_B] });
+// The user's MINT_A ATA holds 1000
+const connection = fakeConnection({ tokenAccounts: { [ata(MINT_A)]: { mint: MINT_A, amount: 1000n } } });
+
+describe("buildMultiSwapTxV0", () => {
+  it("uses the injected provider and connection", async () => {
+    const calls: QuoteParams[] = [];
+
+    const { unsignedTx, diagnostics } = await buildMultiSwapTxV0({
+      routes: [
+        { side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 },
+        { side: "buy", inputMint: SOL, outputMint: MINT_B, amount: "7000", slippageBps: 50 },
+      ],
+      userPublicKey: user,
+      provider: provider(calls),
+      connection,
+    });
+
+    expect(calls.map((c) => c.outputMint).sort()).toEqual([MINT_A, MINT_B].sort());
+    expect(diagnostics.skipped).toEqual([
+      { index: 1, reason: "Quote HTTP 400", code: "COULD_NOT_FIND_ANY_ROUTE" },
+    ]);
+    expect(diagnostics.routeIndices).toEqual([0]);
+    expect(diagnostics.wrappedLamports).toBe(5000);
+
+    expect(programIds(unsignedTx)).toEqual([
+      "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL", // WSOL ATA (idempotent)
+      "11111111111111111111111111111111", // lamport transfer
+      "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", // SyncNative
+      "ComputeBudget111111111111111111111111111111", // default CU limit
+      "ComputeBudget111111111111111111111111111111", // CU price
+      FAKE_DEX, // swap
+      "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", // CloseAccount (unwrap)
+    ]);
+  });
+
+  it("converts ExactOut uiAmount with the output mint decimals", async () => {
+    const calls: QuoteParams[] = [];
+
+    await buildMultiSwapTxV0({
+      routes: [
+        { side: "buy", inputMint: SOL, outputMint: MINT_A, uiAmount: 2.5, slippageBps: 50, swapMode: "ExactOut" },
+      ],
+      userPublicKey: user,
+      provider: provider(calls),
+      connection,
+    });
+
+    expect(calls[0]).toMatchObject({ amount: "2500000", swapMode: "ExactOut" });
+  });
+
+  it("wraps the ExactOut maximum input of a SOL-funded buy", async () => {
+    const { diagnostics } = await buildMultiSwapTxV0({
+      routes: [
+        { side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "700", slippageBps: 50, swapMode: "ExactOut" },
+      ],
+      userPublicKey: user,
+      provider: provider(),
+      connection,
+    });
+
+    // otherAmountThreshold of the quote, not the requested output amount
+    expect(diagnostics.wrappedLamports).toBe(990);
+  });
+
+  it("unwraps the SOL proceeds of a sell-only bundle once, unless keeping WSOL", async () => {
+    const sell = { side: "sell" as const, inputMint: MINT_A, outputMint: SOL, slippageBps: 50 };
+    const build = (unwrapPolicy: "unwrap" | "keep-wsol") =>
+      buildMultiSwapTxV0({
+        routes: [
+          { ...sell, amount: "400" },
+          { ...sell, amount: "300" },
+        ],
+        userPublicKey: user,
+        provider: provider(),
+        connection,
+        unwrapPolicy,
+      });
+    const closes = (tx: VersionedTransaction) =>
+      tx.message.compiledInstructions.filter(
+        (ix) => tx.message.staticAccountKeys[ix.programIdIndex].toBase58() === TOKEN_PROGRAM && ix.data[0] === 9
+      );
+
+    const unwrapped = await build("unwrap");
+    expect(unwrapped.diagnostics.wrappedLamports).toBe(0);
+    expect(closes(unwrapped.unsignedTx)).toHaveLength(1);
+    expect(programIds(unwrapped.unsignedTx).slice(-3)).toEqual([FAKE_DEX, FAKE_DEX, TOKEN_PROGRAM]);
+
+    const kept = await build("keep-wsol");
+    expect(closes(kept.unsignedTx)).toHaveLength(0);
+    expect(programIds(kept.unsignedTx).at(-1)).toBe(FAKE_DEX);
+  });
+
+  it("runs user steps and places pre/post instructions around the bundle", async () => {
+    const memo = (text: string) =>
+      new TransactionInstruction({ programId: new PublicKey(MEMO), keys: [], data: Buffer.from(text) });
+    const seen: number[] = [];
+
+    const { unsignedTx } = await buildMultiSwapTxV0({
+      routes: [{ side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 }],
+      userPublicKey: user,
+      provider: provider(),
+      connection,
+      preInstructions: [memo("order-42")],
+      postInstructions: [memo("order-42:done")],
+      steps: (defaults) => [
+        ...defaults.slice(0, -1),
+        { run: async (ctx) => void seen.push(ctx.instructions.length) },
+        ...defaults.slice(-1),
+      ],
+    });
+
+    const programs = programIds(unsignedTx);
+    expect(seen).toEqual([programs.length]);
+    expect(programs[0]).toBe(MEMO);
+    expect(programs[programs.length - 1]).toBe(MEMO);
+    expect(programs[programs.length - 2]).toBe("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"); // unwrap
+  });
+
+  it("resolves percent and sell-all from the ATA balance and closes the emptied account", async () => {
+    const calls: QuoteParams[] = [];
+    const sell = { side: "sell" as const, inputMint: MINT_A, outputMint: SOL, slippageBps: 50 };
+    const build = (routes: MultiRouteInput[]) =>
+      buildMultiSwapTxV0({ routes, userPublicKey: user, provider: provider(calls), connection });
+
+    await build([
+      { ...sell, percent: 25 },
+      { ...sell, uiAmount: "0.0005" },
+    ]);
+    expect(calls.map((c) => c.amount)).toEqual(["250", "500"]);
+
+    const { unsignedTx } = await build([{ ...sell, all: true, closeAccount: true }]);
+    expect(calls.at(-1)!.amount).toBe("1000");
+    const programs = programIds(unsignedTx);
+    expect(programs.slice(-2)).toEqual([TOKEN_PROGRAM, TOKEN_PROGRAM]); // close input ATA, then unwrap
+  });
+
+  it("sums the owner's token accounts and moves the other balances into the ATA when needed", async () => {
+    const calls: QuoteParams[] = [];
+    const other = Keypair.generate().publicKey.toBase58();
+    const foreign = Keypair.generate().publicKey.toBase58();
+    const conn = fakeConnection({
+      tokenAccounts: {
+        [ata(MINT_A)]: { mint: MINT_A, amount: 1000n },
+        [other]: { mint: MINT_A, amount: 500n },
+        [foreign]: { mint: MINT_A, owner: Keypair.generate().publicKey.toBase58(), amount: 700n },
+      },
+    });
+    const sell = { side: "sell" as const, inputMint: MINT_A, outputMint: SOL, slippageBps: 50 };
+    const build = (routes: MultiRouteInput[], c: Connection = conn) =>
+      buildMultiSwapTxV0({ routes, userPublicKey: user, provider: provider(calls), connection: c });
+    const transfers = (tx: VersionedTransaction) =>
+      tx.message.compiledInstructions.filter(
+        (ix) => tx.message.staticAccountKeys[ix.programIdIndex].toBase58() === TOKEN_PROGRAM && ix.data[0] === 12
+      );
+
+    // 1000 (ATA) + 500; the other owner's account is not counted
+    const all = await build([{ ...sell, all: true }]);
+    expect(calls.at(-1)!.amount).toBe("1500");
+    const [transfer] = transfers(all.unsignedTx);
+    expect(transfers(all.unsignedTx)).toHaveLength(1);
+    expect(Buffer.from(transfer.data).readBigUInt64LE(1)).toBe(500n);
+    const programs = programIds(all.unsignedTx);
+    expect(programs.indexOf(TOKEN_PROGRAM)).toBeLessThan(programs.indexOf(FAKE_DEX));
+    expect(all.diagnostics.instructionRoutes[programs.indexOf(TOKEN_PROGRAM)]).toBe(0);
+
+    // The ATA covers 50%: nothing moved
+    const half = await build([{ ...sell, percent: 50 }]);
+    expect(calls.at(-1)!.amount).toBe("750");
+    expect(transfers(half.unsignedTx)).toHaveLength(0);
+
+    // Two sells needing the other account share one transfer
+    const both = await build([
+      { ...sell, amount: "800" },
+      { ...sell, amount: "600" },
+    ]);
+    expect(transfers(both.unsignedTx)).toHaveLength(1);
+
+    // Tokens only outside the ATA: the ATA is created before the transfer
+    const onlyOther = fakeConnection({ tokenAccounts: { [other]: { mint: MINT_A, amount: 500n } } });
+    const created = await build([{ ...sell, uiAmount: "1" }], onlyOther);
+    expect(calls.at(-1)!.amount).toBe("500");
+    const createdPrograms = programIds(created.unsignedTx);
+    const create = createdPrograms.lastIndexOf("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+    expect(create).toBeGreaterThan(-1);
+    expect(create).toBeLessThan(createdPrograms.indexOf(TOKEN_PROGRAM));
+    expect(transfers(created.unsignedTx)).toHaveLength(1);
+  });
+
+  it("rejects sells of one mint adding up to more than the balance", async () => {
+    const sell = { side: "sell" as const, inputMint: MINT_A, outputMint: SOL, slippageBps: 50 };
+    const build = (routes: MultiRouteInput[]) =>
+      buildMultiSwapTxV0({ routes, userPublicKey: user, provider: provider(), connection }).catch((e) => e);
+
+    const twice = await build([{ ...sell, percent: 50 }, { ...sell, all: true }]);
+    expect(twice).toMatchObject({ code: "INSUFFICIENT_BALANCE", routeIndex: 1, step: "NormalizeRoutesStep" });
+    expect(twice.message).toMatch(/add up to 1500, above the 1000 balance/);
+
+    expect(await build([{ ...sell, amount: "600" }, { ...sell, percent: 50 }])).toMatchObject({
+      code: "INSUFFICIENT_BALANCE",
+      routeIndex: 1,
+    });
+  });
+
+  it("sets exactly one CU price from the priority fee strategy", async () => {
+    const base = provider();
+    const withBudget: SwapProvider = {
+      getQuote: base.getQuote,
+      async getSwapInstructions(p) {
+        // Each route suggests its own limit + price
+        const price = p.quoteResponse.inAmount === "5000" ? 10 : 99;
+        return {
+          ...(await base.getSwapInstructions(p)),
+          computeBudgetInstructions: [
+            ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
+            ComputeBudgetProgram.setComputeUnitPrice({ microLamports: price }),
+          ].map((ix) => ({
+            programId: ix.programId.toBase58(),
+            accounts: [],
+            data: Buffer.from(ix.data).toString("base64"),
+          })),
+        };
+      },
+    };
+    const routes = [
+      { side: "buy" as const, inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 },
+      { side: "buy" as const, inputMint: SOL, outputMint: MINT_A, amount: "6000", slippageBps: 50 },
+    ];
+    const build = (priorityFee?: Parameters<typeof buildMultiSwapTxV0>[0]["priorityFee"]) =>
+      buildMultiSwapTxV0({ routes, userPublicKey: user, provider: withBudget, connection, priorityFee });
+
+    const cuPrices = (tx: VersionedTransaction) =>
+      programIds(tx).filter(
+        (p, i) =>
+          p === ComputeBudgetProgram.programId.toBase58() && tx.message.compiledInstructions[i].data[0] === 3
+      );
+
+    const auto = await build();
+    expect(cuPrices(auto.unsignedTx)).toHaveLength(1);
+    expect(auto.diagnostics.priorityFee).toMatchObject({ mode: "auto", microLamports: "99" });
+
+    const pct = await build({ mode: "percentile", percentile: 75 });
+    expect(cuPrices(pct.unsignedTx)).toHaveLength(1);
+    expect(pct.diagnostics.priorityFee).toMatchObject({ microLamports: "20", computeUnitLimit: 200_000 });
+
+    const cap = await build({ mode: "cap", maxLamports: 1_000 });
+    expect(cap.diagnostics.priorityFee).toMatchObject({ microLamports: "5000", maxPriorityFeeLamports: "1000" });
+  });
+
+  it("sizes the CU limit from simulation before pricing it", async () => {
+    const { unsignedTx, diagnostics } = await buildMultiSwapTxV0({
+      routes: [{ side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 }],
+      userPublicKey: user,
+      provider: provider(),
+      connection,
+      computeUnitLimit: { mode: "simulate", margin: 1.2 },
+      priorityFee: { mode: "cap", maxLamports: 1_200 },
+    });
+
+    expect(diagnostics.computeUnits).toEqual({ mode: "simulate", units: 120_000, simulatedUnits: 100_000 });
+    expect(diagnostics.priorityFee).toMatchObject({ computeUnitLimit: 120_000, microLamports: "10000" });
+
+    const limits = unsignedTx.message.compiledInstructions.filter(
+      (ix) =>
+        unsignedTx.message.staticAccountKeys[ix.programIdIndex].equals(ComputeBudgetProgram.programId) &&
+        ix.data[0] === 2
+    );
+    expect(limits).toHaveLength(1);
+    expect(Buffer.from(limits[0].data).readUInt32LE(1)).toBe(120_000);
+  });
+
+  it("prunes the route that fails in simulation and rebuilds without it", async () => {
+    // Any swap of 6000 trips the slippage check
+    const simulations: number[] = [];
+    const failing = {
+      ...connection,
+      async simulateTransaction(tx: VersionedTransaction) {
+        const ixs = tx.message.compiledInstructions;
+        const bad = ixs.findIndex((ix) => Buffer.from(ix.data).toString() === "6000");
+        simulations.push(ixs.length);
+        return bad === -1
+          ? { value: { err: null, logs: [], unitsConsumed: 100_000 } }
+          : {
+              value: {
+                err: { InstructionError: [bad, { Custom: 6001 }] },
+                logs: ["Program log: Error: SlippageToleranceExceeded"],
+              },
+            };
+      },
+    } as unknown as Connection;
+    const routes = [
+      { side: "buy" as const, inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 },
+      { side: "buy" as const, inputMint: SOL, outputMint: MINT_A, amount: "6000", slippageBps: 50 },
+    ];
+
+    const { diagnostics } = await buildMultiSwapTxV0({
+      routes,
+      userPublicKey: user,
+      provider: provider(),
+      connection: failing,
+      onSimulationFailure: "prune",
+    });
+
+    expect(simulations).toHaveLength(2);
+    expect(diagnostics.routeIndices).toEqual([0]);
+    expect(diagnostics.skipped).toEqual([
+      {
+        index: 1,
+        reason: "slippage-exceeded: Program log: Error: SlippageToleranceExceeded",
+        code: "SIMULATION_FAILED",
+      },
+    ]);
+
+    await expect(
+      buildMultiSwapTxV0({
+        routes,
+        userPublicKey: user,
+        provider: provider(),
+        connection: failing,
+        onSimulationFailure: "fail",
+      })
+    ).rejects.toBeInstanceOf(SimulationFailedError);
+
+    await expect(
+      buildMultiSwapTxV0({
+        routes,
+        userPublicKey: user,
+        provider: provider(),
+        connection: failing,
+        onSimulationFailure: "prune",
+        maxPruneRounds: 0,
+      })
+    ).rejects.toThrow(/route 1/);
+  });
+
+  it("throws typed errors with the route index and step", async () => {
+    const build = (routes: Parameters<typeof buildMultiSwapTxV0>[0]["routes"]) =>
+      buildMultiSwapTxV0({
+        routes,
+        userPublicKey: user,
+        provider: provider(),
+        connection,
+        onRouteNotFound: "fail",
+      }).catch((e) => e);
+
+    const invalid = await build([
+      { side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 },
+      { side: "buy", inputMint: SOL, outputMint: MINT_A, slippageBps: 50 },
+    ]);
+    expect(invalid).toBeInstanceOf(MultiSwapError);
+    expect(invalid).toMatchObject({ code: "INVALID_ROUTE", routeIndex: 1, step: "ValidateRoutesStep" });
+
+    const noRoute = await build([
+      { side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 },
+      { side: "buy", inputMint: SOL, outputMint: MINT_B, amount: "7000", slippageBps: 50 },
+    ]);
+    expect(noRoute).toMatchObject({ code: "NO_ROUTE", routeIndex: 1, step: "QuoteStep" });
+    expect(noRoute.cause).toMatchObject({ errorCode: "COULD_NOT_FIND_ANY_ROUTE" });
+  });
+
+  it("rejects amounts that resolve to zero base units before quoting", async () => {
+    const calls: QuoteParams[] = [];
+    const build = (route: MultiRouteInput, conn = connection) =>
+      buildMultiSwapTxV0({
+        routes: [{ side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 }, route],
+        userPublicKey: user,
+        provider: provider(calls),
+        connection: conn,
+      }).catch((e) => e);
+    const sell = { side: "sell" as const, inputMint: MINT_A, outputMint: SOL, slippageBps: 50 };
+
+    // 6 decimals: 0.0000001 floors to 0
+    const rounded = await build({ ...sell, uiAmount: "0.0000001", rounding: "floor" });
+    expect(rounded).toMatchObject({ code: "INVALID_ROUTE", routeIndex: 1, step: "NormalizeRoutesStep" });
+    expect(rounded.message).toMatch(/zero base units/);
+
+    // 0.00001% of 1000
+    const tiny = await build({ ...sell, percent: "0.00001" });
+    expect(tiny).toMatchObject({ code: "INVALID_ROUTE", routeIndex: 1 });
+
+    const empty = await build({ ...sell, uiAmount: "1" }, fakeConnection({ missing: [ata(MINT_A)] }));
+    expect(empty).toMatchObject({ code: "INSUFFICIENT_BALANCE", routeIndex: 1, step: "NormalizeRoutesStep" });
+
+    expect(calls).toEqual([]);
+  });
+
+  it("checks the wallet covers wrapped SOL, fees and rent before quoting", async () => {
+    const routes = [{ side: "buy" as const, inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 }];
+    const userKey = new PublicKey(user);
+    // Wallet holds 1 SOL, token accounts do not exist yet
+    const poor = {
+      ...connection,
+      async getMultipleAccountsInfo(keys: PublicKey[]) {
+        const infos = await connection.getMultipleAccountsInfo(keys);
+        return keys.map((k, i) => {
+          if (k.equals(userKey)) return { ...infos[i], lamports: 1_000_000_000 };
+          return [MINT_A, SOL].includes(k.toBase58()) ? infos[i] : null;
+        });
+      },
+    } as unknown as Connection;
+    const calls: QuoteParams[] = [];
+    const build = (amount: string, priorityFee: PriorityFeeStrategy = { mode: "fixed", microLamports: 0 }) =>
+      buildMultiSwapTxV0({
+        routes: [{ ...routes[0], amount }],
+        userPublicKey: user,
+        provider: provider(calls),
+        connection: poor,
+        priorityFee,
+        computeUnitLimit: { mode: "fixed", units: 200_000 },
+      });
+
+    const { diagnostics } = await build("5000");
+    expect(diagnostics.balanceCheck).toMatchObject({
+      balance: "1000000000",
+      wrappedLamports: "5000",
+      fees: "5000",
+      rent: String(2 * 2_039_280),
+    });
+    expect(diagnostics.balanceCheck!.newAccounts).toHaveLength(2); // MINT_A + WSOL ATAs
+
+    // Priority fee known up front: fixed price × fixed limit, or the cap
+    const fixed = await build("5000", { mode: "fixed", microLamports: 1_000_000 });
+    expect(fixed.diagnostics.balanceCheck!.fees).toBe(String(5000 + 200_000));
+    const capped = await build("5000", { mode: "cap", maxLamports: 7000 });
+    expect(capped.diagnostics.balanceCheck!.fees).toBe("12000");
+
+    calls.length = 0;
+    const err = await build("999000000").catch((e) => e);
+    expect(err).toMatchObject({ code: "INSUFFICIENT_BALANCE", step: "PreflightBalanceStep" });
+    expect(err.message).toMatch(/rent 4078560/);
+    expect(calls).toEqual([]);
+  });
+
+  it("checks the maximum input of ExactOut SOL-funded buys once quoted", async () => {
+    const build = (otherAmountThreshold: string) =>
+      buildMultiSwapTxV0({
+        routes: [
+          { side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "1000", swapMode: "ExactOut", slippageBps: 50 },
+        ],
+        userPublicKey: user,
+        provider: fakeProvider({ quote: (p) => ({ ...fakeQuote(p), inAmount: "5000", otherAmountThreshold }) }),
+        connection: fakeConnection({ lamports: 1_000_000_000 }),
+      });
+
+    const { diagnostics } = await build("5025");
+    expect(diagnostics.balanceCheck).toMatchObject({ wrappedLamports: "5025" });
+
+    // Up to 2 SOL, with 1 SOL in the wallet
+    const err = await build("2000000000").catch((e) => e);
+    expect(err).toMatchObject({ code: "INSUFFICIENT_BALANCE", step: "BalanceCheckStep" });
+    expect(err.message).toMatch(/wrapped 2000000000/);
+  });
+
+  it("skips or rejects quotes that violate the route guards", async () => {
+    const buy = { side: "buy" as const, inputMint: SOL, outputMint: MINT_A, slippageBps: 50 };
+    const routes = [
+      // 6 decimals: 0.001 → 1000, above the guaranteed 990
+      { ...buy, amount: "5000", minOutUiAmount: "0.001" },
+      { ...buy, amount: "6000", maxPriceImpactPct: 1 },
+    ];
+    const build = (onGuardViolation: "skip" | "fail") =>
+      buildMultiSwapTxV0({
+        routes,
+        userPublicKey: user,
+        provider: provider(),
+        connection,
+        onGuardViolation,
+      });
+
+    const { diagnostics } = await build("skip");
+    expect(diagnostics.routeIndices).toEqual([1]);
+    expect(diagnostics.skipped).toEqual([
+      {
+        index: 0,
+        reason: "guaranteed output 990 below minOutAmount 1000",
+        code: "OUTPUT_BELOW_MINIMUM",
+        quote: { inAmount: "5000", outAmount: "1000", otherAmountThreshold: "990", priceImpactPct: "0" },
+      },
+    ]);
+
+    const err = await build("fail").catch((e) => e);
+    expect(err).toMatchObject({ code: "QUOTE_REJECTED", routeIndex: 0, reason: "OUTPUT_BELOW_MINIMUM" });
+  });
+
+  it("passes routing options to the provider, route over bundle default", async () => {
+    const calls: QuoteParams[] = [];
+    const buy = { side: "buy" as const, inputMint: SOL, slippageBps: 50 };
+
+    await buildMultiSwapTxV0({
+      routes: [
+        { ...buy, outputMint: MINT_A, amount: "5000" },
+        { ...buy, outputMint: MINT_A, amount: "6000", maxAccounts: 12, excludeDexes: ["Orca V2"] },
+      ],
+      userPublicKey: user,
+      provider: provider(calls),
+      connection,
+      routing: { maxAccounts: 30, onlyDirectRoutes: true },
+    });
+
+    const byAmount = Object.fromEntries(calls.map((c) => [c.amount, c]));
+    expect(byAmount["5000"]).toEqual(expect.objectContaining({ maxAccounts: 30, onlyDirectRoutes: true }));
+    expect(byAmount["5000"]).not.toHaveProperty("excludeDexes");
+    expect(byAmount["6000"]).toEqual(
+      expect.objectContaining({ maxAccounts: 12, onlyDirectRoutes: true, excludeDexes: ["Orca V2"] })
+    );
+  });
+
+  it("re-quotes the heaviest routes with tighter routing until the bundle fits", async () => {
+    // Each swap references `maxAccounts` (default 40) distinct static accounts
+    const calls: QuoteParams[] = [];
+    const heavy: SwapProvider = {
+      async getQuote(p) {
+        calls.push(p);
+        return { ...fakeQuote(p), accounts: p.onlyDirectRoutes ? 4 : (p.maxAccounts ?? 40) };
+      },
+      async getSwapInstructions({ quoteResponse }) {
+        const n = (quoteResponse as { accounts: number }).accounts;
+        return {
+          swapInstruction: {
+            programId: FAKE_DEX,
+            accounts: Array.from({ length: n }, () => ({
+              pubkey: Keypair.generate().publicKey.toBase58(),
+              isSigner: false,
+              isWritable: false,
+            })),
+            data: Buffer.from(quoteResponse.inAmount).toString("base64"),
+          },
+          addressLookupTableAddresses: [],
+        };
+      },
+    };
+    const buy = { side: "buy" as const, inputMint: SOL, slippageBps: 50 };
+    const build = (maxRequotes?: number, extra: Partial<Parameters<typeof buildMultiSwapTxV0>[0]> = {}) =>
+      buildMultiSwapTxV0({
+        routes: [
+          { ...buy, outputMint: MINT_A, amount: "5000" },
+          { ...buy, outputMint: MINT_A, amount: "6000", maxAccounts: 20 },
+        ],
+        userPublicKey: user,
+        provider: heavy,
+        connection,
+        onTooLarge: "requote",
+        minMaxAccounts: 8,
+        maxRequotes,
+        ...extra,
+      });
+
+    const { diagnostics } = await build();
+    const attempts = diagnostics.sizeAttempts!;
+    expect(attempts[0]).toMatchObject({
+      txSize: -1,
+      routes: [
+        { index: 0, accounts: 41, exclusiveAccounts: 40 },
+        { index: 1, accounts: 21, exclusiveAccounts: 20 },
+      ],
+      requoted: { index: 0, maxAccounts: 30 },
+    });
+    expect(attempts.at(-1)!.requoted).toBeUndefined();
+    expect(attempts.at(-1)!.txSize).toBe(diagnostics.txSize);
+    expect(diagnostics.txSize).toBeLessThanOrEqual(1232);
+    expect(diagnostics.routeIndices).toEqual([0, 1]);
+    // Each attempt re-quotes the tightened route only
+    const amounts = ["5000", "6000"];
+    expect(calls.map((c) => c.amount)).toEqual([
+      ...amounts,
+      ...attempts.filter((a) => a.requoted).map((a) => amounts[a.requoted!.index]),
+    ]);
+
+    // Pruning rebuilds with the tightened routing, not the original one
+    calls.length = 0;
+    const failing = {
+      ...connection,
+      async simulateTransaction(tx: VersionedTransaction) {
+        const bad = tx.message.compiledInstructions.findIndex((ix) => Buffer.from(ix.data).toString() === "6000");
+        return bad === -1
+          ? { value: { err: null, logs: [], unitsConsumed: 100_000 } }
+          : { value: { err: { InstructionError: [bad, { Custom: 6001 }] }, logs: [] } };
+      },
+    } as unknown as Connection;
+    const pruned = await build(undefined, { connection: failing, onSimulationFailure: "prune" });
+    expect(pruned.diagnostics.routeIndices).toEqual([0]);
+    const first = calls.filter((c) => c.amount === "5000");
+    expect(first.at(-1)!.maxAccounts).toBeDefined();
+    expect(first.at(-1)!.maxAccounts).toBe(first.at(-2)!.maxAccounts);
+
+    // Out of re-quotes: fails with the attempts made
+    const err = await build(1).catch((e) => e);
+    expect(err).toMatchObject({ code: "TX_TOO_LARGE" });
+    expect(err.attempts.map((a: { requoted?: object }) => a.requoted)).toEqual([
+      { index: 0, maxAccounts: 30 },
+      undefined,
+    ]);
+  });
+});
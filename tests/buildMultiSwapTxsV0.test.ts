@@ -0,0 +1,200 @@
+// tests/buildMultiSwapTxsV0.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * buildMultiSwapTxsV0 Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Offline tests of the split builder, with a fake `SwapProvider` whose swaps
+ * bring in a given number of accounts, and a fake `Connection`.
+ *
+ * - Verifies greedy, in-order packing and `diagnostics.groups`
+ * - Verifies each transaction wraps and unwraps its own SOL
+ * - Verifies the CU limit and blockhash are resolved once per final transaction
+ * - Verifies the SOL balance is checked before quoting, then for the whole batch
+ * - Verifies pre/post instructions go in the first/last transaction only
+ * - Verifies a sold mint's other token accounts are emptied in the first transaction only
+ * - Verifies a route too large on its own throws `TransactionTooLargeError`
+ * - Verifies `steps` / `onTooLarge: "requote"` / `onSimulationFailure` are rejected
+ */
+
+import { describe, it, expect } from "vitest";
+import { Connection, Keypair, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { buildMultiSwapTxsV0 } from "../src/core/buildMultiSwapTxsV0.js";
+import { InsufficientBalanceError, InvalidParamsError, TransactionTooLargeError } from "../src/errors.js";
+import type { SwapIxs } from "../src/lib/jupiter.schemas.js";
+import type { BuildMultiSwapParams, MultiRouteInput, QuoteParams, SwapProvider } from "../src/types.js";
+import { FAKE_DEX, SOL, TOKEN_PROGRAM, ata, fakeConnection, fakeProvider, programIds, user } from "./helpers.js";
+
+const MINT_A = Keypair.generate().publicKey.toBase58();
+const MEMO = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+
+/**
+ * `fakeProvider` whose swap instruction references `accounts(amount)` distinct accounts.
+ */
+function heavyProvider(accounts: (amount: string) => number): SwapProvider {
+  const base = fakeProvider();
+  return {
+    getQuote: base.getQuote,
+    async getSwapInstructions(p): Promise<SwapIxs> {
+      const ixs = await base.getSwapInstructions(p);
+      const swap = ixs.swapInstruction;
+      if (!swap) throw new Error("fakeProvider returned no swap instruction");
+      const extra = Array.from({ length: accounts(p.quoteResponse.inAmount) }, () => ({
+        pubkey: Keypair.generate().publicKey.toBase58(),
+        isSigner: false,
+        isWritable: false,
+      }));
+      return { ...ixs, swapInstruction: { ...swap, accounts: [...swap.accounts, ...extra] } };
+    },
+  };
+}
+
+const buy = (amount: string): MultiRouteInput => ({
+  side: "buy",
+  inputMint: SOL,
+  outputMint: MINT_A,
+  amount,
+  slippageBps: 50,
+});
+
+// Two of these routes fit in one transaction, three do not
+const routes = ["1000", "2000", "3000", "4000", "5000"].map(buy);
+
+/**
+ * Connection counting blockhash fetches and simulations.
+ */
+function countingConnection() {
+  const base = fakeConnection();
+  const counts = { blockhashes: 0, simulations: 0 };
+  const conn = {
+    ...base,
+    async getLatestBlockhash() {
+      counts.blockhashes++;
+      return base.getLatestBlockhash();
+    },
+    async simulateTransaction(...args: unknown[]) {
+      counts.simulations++;
+      return (base.simulateTransaction as (...a: unknown[]) => unknown)(...args);
+    },
+  } as unknown as Connection;
+  return { conn, counts };
+}
+
+function build(params: Partial<BuildMultiSwapParams> = {}) {
+  return buildMultiSwapTxsV0({
+    routes,
+    userPublicKey: user,
+    provider: heavyProvider(() => 10),
+    connection: fakeConnection(),
+    ...params,
+  });
+}
+
+describe("buildMultiSwapTxsV0", () => {
+  it("packs routes greedily, in order, each transaction wrapping and unwrapping its own SOL", async () => {
+    const { conn, counts } = countingConnection();
+    const { transactions, diagnostics } = await build({
+      connection: conn,
+      computeUnitLimit: { mode: "simulate" },
+    });
+
+    expect(diagnostics.groups).toEqual([[0, 1], [2, 3], [4]]);
+    expect(transactions.map((t) => t.diagnostics.routeIndices)).toEqual(diagnostics.groups);
+    expect(transactions.map((t) => t.diagnostics.wrappedLamports)).toEqual([3000, 7000, 5000]);
+    expect(diagnostics).toMatchObject({ executedCount: 5, requestedCount: 5 });
+
+    for (const { unsignedTx, diagnostics: d } of transactions) {
+      const programs = programIds(unsignedTx);
+      expect(programs.slice(0, 3)).toEqual([
+        "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL", // WSOL ATA (idempotent)
+        "11111111111111111111111111111111", // lamport transfer
+        TOKEN_PROGRAM, // SyncNative
+      ]);
+      expect(programs.filter((p) => p === FAKE_DEX)).toHaveLength(d.routeIndices.length);
+      expect(programs.at(-1)).toBe(TOKEN_PROGRAM); // CloseAccount (unwrap)
+      expect(d.txSize).toBeLessThanOrEqual(1232);
+    }
+
+    // Budget and finalization run once per final transaction, not per candidate
+    expect(counts).toEqual({ blockhashes: 3, simulations: 3 });
+  });
+
+  it("checks the SOL balance for the whole batch", async () => {
+    const { diagnostics } = await build();
+    expect(diagnostics.balanceCheck).toMatchObject({ wrappedLamports: "15000", fees: "15000", required: "30000" });
+
+    // Enough for any one transaction, not for all three
+    const err = await build({ connection: fakeConnection({ lamports: 20_000 }) }).catch((e) => e);
+    expect(err).toBeInstanceOf(InsufficientBalanceError);
+    expect(err.message).toContain("required 30000");
+
+    const unchecked = await build({ connection: fakeConnection({ lamports: 20_000 }), checkBalance: false });
+    expect(unchecked.diagnostics.balanceCheck).toBeUndefined();
+
+    // Short of the buys alone: rejected before quoting
+    const quotes: QuoteParams[] = [];
+    const early = await build({
+      connection: fakeConnection({ lamports: 10_000 }),
+      provider: fakeProvider({ quotes }),
+    }).catch((e) => e);
+    expect(early).toMatchObject({ code: "INSUFFICIENT_BALANCE", step: "PreflightBalanceStep" });
+    expect(quotes).toEqual([]);
+
+    // One transaction: the pre-quote check stands
+    const single = await build({ routes: [buy("1000")] });
+    expect(single.diagnostics.balanceCheck).toMatchObject({ wrappedLamports: "1000", fees: "5000" });
+  });
+
+  it("puts pre-instructions in the first transaction and post-instructions in the last", async () => {
+    const memo = (text: string) =>
+      new TransactionInstruction({ programId: new PublicKey(MEMO), keys: [], data: Buffer.from(text) });
+    const { transactions, diagnostics } = await build({
+      preInstructions: [memo("pre")],
+      postInstructions: [memo("treasury fee")],
+    });
+
+    expect(diagnostics.groups).toEqual([[0, 1], [2, 3], [4]]);
+    expect(transactions.map((t) => programIds(t.unsignedTx).filter((p) => p === MEMO).length)).toEqual([1, 0, 1]);
+    expect(programIds(transactions[0].unsignedTx)[0]).toBe(MEMO);
+    expect(programIds(transactions[2].unsignedTx).at(-1)).toBe(MEMO);
+  });
+
+  it("empties a sold mint's other token accounts in the first transaction selling it only", async () => {
+    const other = Keypair.generate().publicKey.toBase58();
+    const sell = (amount: string): MultiRouteInput => ({
+      side: "sell",
+      inputMint: MINT_A,
+      outputMint: SOL,
+      amount,
+      slippageBps: 50,
+    });
+    const { transactions, diagnostics } = await build({
+      routes: [buy("1000"), buy("2000"), sell("400"), sell("400"), sell("400")],
+      connection: fakeConnection({
+        tokenAccounts: { [ata(MINT_A)]: { mint: MINT_A, amount: 500n }, [other]: { mint: MINT_A, amount: 800n } },
+      }),
+    });
+
+    expect(diagnostics.groups).toEqual([[0, 1], [2, 3], [4]]);
+    const transfers = transactions.map(
+      ({ unsignedTx: { message } }) =>
+        message.compiledInstructions.filter(
+          (ix) => message.staticAccountKeys[ix.programIdIndex].toBase58() === TOKEN_PROGRAM && ix.data[0] === 12
+        ).length
+    );
+    expect(transfers).toEqual([0, 1, 0]);
+  });
+
+  it("throws TransactionTooLargeError when a route does not fit on its own", async () => {
+    const err = await build({ provider: heavyProvider((amount) => (amount === "3000" ? 40 : 10)) }).catch((e) => e);
+
+    expect(err).toBeInstanceOf(TransactionTooLargeError);
+    expect(err).toMatchObject({ code: "TX_TOO_LARGE", routeIndex: 2 });
+  });
+
+  it("rejects custom steps, re-quoting and simulation options", async () => {
+    expect(await build({ steps: (defaults) => defaults }).catch((e) => e)).toBeInstanceOf(InvalidParamsError);
+    expect(await build({ onTooLarge: "requote" }).catch((e) => e)).toBeInstanceOf(InvalidParamsError);
+    expect(await build({ onSimulationFailure: "prune" }).catch((e) => e)).toBeInstanceOf(InvalidParamsError);
+  });
+});
@@ -0,0 +1,73 @@
+// tests/destination.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Destination Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Offline tests of routes whose output goes to another wallet or token account,
+ * with a fake `SwapProvider` and a fake `Connection`.
+ *
+ * - Verifies `destination` resolves to its ATA of the output mint, created once per (owner, mint)
+ * - Verifies `destinationTokenAccount` is passed through without creating anything
+ * - Verifies the balance check counts the rent of a missing destination ATA
+ */
+
+import { describe, it, expect } from "vitest";
+import { Keypair, PublicKey, TransactionMessage } from "@solana/web3.js";
+import { buildMultiSwapTxV0 } from "../src/core/buildMultiSwapTxV0.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, getAssociatedTokenAddress } from "../src/lib/spl.js";
+import type { MultiRouteInput, SwapInstructionParams } from "../src/types.js";
+import { FAKE_DEX, SOL, fakeConnection, fakeProvider, user } from "./helpers.js";
+
+const MINT_A = Keypair.generate().publicKey.toBase58();
+const treasury = Keypair.generate().publicKey;
+const treasuryAta = getAssociatedTokenAddress(treasury, new PublicKey(MINT_A)).toBase58();
+
+const buyA: MultiRouteInput = { side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 };
+
+describe("destination", () => {
+  it("sends the output to the destination's ATA, created once before the swaps", async () => {
+    const swaps: SwapInstructionParams[] = [];
+
+    const { unsignedTx, legs, diagnostics } = await buildMultiSwapTxV0({
+      routes: [
+        { ...buyA, destination: treasury.toBase58() },
+        { ...buyA, amount: "7000", destination: treasury.toBase58() },
+      ],
+      userPublicKey: user,
+      provider: fakeProvider({ swaps }),
+      connection: fakeConnection({ missing: [treasuryAta] }),
+    });
+
+    expect(swaps.map((s) => s.destinationTokenAccount)).toEqual([treasuryAta, treasuryAta]);
+    expect(legs.map((l) => l.route.destinationTokenAccount)).toEqual([treasuryAta, treasuryAta]);
+
+    const { instructions } = TransactionMessage.decompile(unsignedTx.message);
+    const creates = instructions.filter(
+      (ix) => ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) && ix.keys[2].pubkey.equals(treasury)
+    );
+    expect(creates).toHaveLength(1);
+    expect(creates[0].keys[0].pubkey.toBase58()).toBe(user); // rent payer
+    expect(instructions.indexOf(creates[0])).toBeLessThan(
+      instructions.findIndex((ix) => ix.programId.toBase58() === FAKE_DEX)
+    );
+
+    expect(diagnostics.balanceCheck?.newAccounts).toEqual([treasuryAta]);
+  });
+
+  it("passes a destination token account through without creating it", async () => {
+    const swaps: SwapInstructionParams[] = [];
+    const account = Keypair.generate().publicKey.toBase58();
+
+    const { unsignedTx } = await buildMultiSwapTxV0({
+      routes: [{ ...buyA, destinationTokenAccount: account }],
+      userPublicKey: user,
+      provider: fakeProvider({ swaps }),
+      connection: fakeConnection(),
+    });
+
+    expect(swaps[0].destinationTokenAccount).toBe(account);
+    const { instructions } = TransactionMessage.decompile(unsignedTx.message);
+    expect(instructions.filter((ix) => ix.keys[3]?.pubkey.toBase58() === MINT_A)).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+// tests/execute.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * execute Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Send loop tests with a fake `Connection` that drops broadcasts.
+ *
+ * - Verifies the transaction is re-broadcast until it lands
+ * - Verifies status events and the structured result (slot, fee, CU)
+ * - Verifies blockhash expiry ends the loop with "expired"
+ * - Verifies transient status RPC failures are retried, repeated ones rejected
+ * - Runs fully offline (no RPC, no Jupiter)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { execute } from "../src/core/execute.js";
+import { KeypairSigner } from "../src/core/signers/KeypairSigner.js";
+import { RpcError, TransactionExpiredError } from "../src/errors.js";
+import type { ExecutionStatusEvent } from "../src/types.js";
+
+const keypair = Keypair.generate();
+const signer = new KeypairSigner(keypair);
+
+function transferTx(): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: keypair.publicKey,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [SystemProgram.transfer({ fromPubkey: keypair.publicKey, toPubkey: keypair.publicKey, lamports: 1 })],
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+/**
+ * Lands on the `landsAfter`-th broadcast, then moves one commitment level per poll.
+ * The first `statusFailures` status and block height calls throw.
+ */
+function fakeConnection(landsAfter: number, blockHeights: number[] = [], statusFailures = 0) {
+  let sends = 0;
+  let statusCalls = 0;
+  let heightCalls = 0;
+  let polls = 0;
+  const levels = ["processed", "confirmed", "finalized"];
+
+  const conn = {
+    async getLatestBlockhash() {
+      return { blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 100 };
+    },
+    async sendRawTransaction() {
+      sends++;
+      return "ignored";
+    },
+    async getSignatureStatuses() {
+      if (statusCalls++ < statusFailures) throw new Error("503 Service Unavailable");
+      if (sends < landsAfter) return { value: [null] };
+      const level = levels[Math.min(polls++, levels.length - 1)];
+      return { value: [{ slot: 42, confirmations: null, err: null, confirmationStatus: level }] };
+    },
+    async getBlockHeight() {
+      if (heightCalls++ < statusFailures) throw new Error("fetch failed");
+      return blockHeights.shift() ?? 50;
+    },
+    async getTransaction() {
+      return { slot: 42, meta: { fee: 5000, computeUnitsConsumed: 12_345, err: null } };
+    },
+  } as unknown as Connection;
+
+  return { conn, sends: () => sends };
+}
+
+describe("execute", () => {
+  it("rebroadcasts until the transaction lands and reports each commitment", async () => {
+    const { conn, sends } = fakeConnection(3);
+    const events: ExecutionStatusEvent[] = [];
+
+    const result = await execute(transferTx(), {
+      signer,
+      connection: conn,
+      pollIntervalMs: 1,
+      rebroadcastIntervalMs: 0,
+      onStatus: (e) => events.push(e),
+    });
+
+    expect(sends()).toBe(3);
+    expect(events.map((e) => e.status)).toEqual(["sent", "sent", "sent", "processed", "confirmed"]);
+    expect(result).toMatchObject({
+      slot: 42,
+      commitment: "confirmed",
+      fee: "5000",
+      computeUnitsConsumed: 12_345,
+      err: null,
+    });
+    expect(result.signature).toBe(events[0].signature);
+  });
+
+  it("stops with expired once the blockhash is no longer valid", async () => {
+    const { conn } = fakeConnection(Infinity, [99, 101]);
+    const events: ExecutionStatusEvent[] = [];
+
+    await expect(
+      execute(transferTx(), {
+        signer,
+        connection: conn,
+        pollIntervalMs: 1,
+        rebroadcastIntervalMs: 60_000,
+        onStatus: (e) => events.push(e),
+      })
+    ).rejects.toBeInstanceOf(TransactionExpiredError);
+
+    expect(events.map((e) => e.status)).toEqual(["sent", "expired"]);
+  });
+
+  it("keeps polling through transient status failures", async () => {
+    const { conn } = fakeConnection(2, [], 3);
+    const events: ExecutionStatusEvent[] = [];
+
+    const result = await execute(transferTx(), {
+      signer,
+      connection: conn,
+      pollIntervalMs: 1,
+      rebroadcastIntervalMs: 0,
+      onStatus: (e) => events.push(e),
+    });
+
+    expect(result.commitment).toBe("confirmed");
+    expect(events.map((e) => e.status).slice(-2)).toEqual(["processed", "confirmed"]);
+  });
+
+  it("fails with the signature after repeated status failures", async () => {
+    const { conn } = fakeConnection(1, [], Infinity);
+    const events: ExecutionStatusEvent[] = [];
+
+    const error = await execute(transferTx(), {
+      signer,
+      connection: conn,
+      pollIntervalMs: 1,
+      onStatus: (e) => events.push(e),
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error.message).toContain(events[0].signature);
+    expect(error.message).toMatch(/failed 5 times in a row/);
+  });
+});
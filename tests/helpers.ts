@@ -0,0 +1,168 @@
+// tests/helpers.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Test helpers
+ * ----------------------------------------------------------------------------
+ *
+ * Offline fakes shared by the pipeline tests.
+ *
+ * - `fakeQuote` / `fakeProvider` — a `SwapProvider` answering every quote with
+ *   1000 out (990 guaranteed) and one swap instruction per quote
+ *   (user, input mint, output mint; data = input amount)
+ * - `fakeConnection` — every account exists (6-decimals SPL Token mint, 10 SOL),
+ *   unless missing or declared as a token account (`ata` derives the user's ATA);
+ *   `getTokenAccountsByOwner` lists the declared token accounts
+ * - `programIds` — program of each instruction of a compiled transaction
+ */
+
+import { Connection, Keypair, PublicKey, VersionedTransaction } from "@solana/web3.js";
+import { JupiterApiError } from "../src/lib/jupiter.js";
+import { getAssociatedTokenAddress } from "../src/lib/spl.js";
+import type { Quote } from "../src/lib/jupiter.schemas.js";
+import type { QuoteParams, SwapInstructionParams, SwapProvider } from "../src/types.js";
+
+export const SOL = "So11111111111111111111111111111111111111112";
+export const TOKEN_PROGRAM = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+export const FAKE_DEX = Keypair.generate().publicKey.toBase58();
+export const user = Keypair.generate().publicKey.toBase58();
+
+/**
+ * Quote of 1000 out (990 after slippage); echoes the requested platform fee.
+ */
+export function fakeQuote(p: QuoteParams): Quote {
+  return {
+    inputMint: p.inputMint,
+    outputMint: p.outputMint,
+    inAmount: p.amount,
+    outAmount: "1000",
+    otherAmountThreshold: "990",
+    swapMode: p.swapMode,
+    slippageBps: p.slippageBps,
+    platformFee: p.platformFeeBps ? { amount: String(p.platformFeeBps), feeBps: p.platformFeeBps } : null,
+    priceImpactPct: "0",
+    routePlan: [],
+    contextSlot: 1,
+    timeTaken: 0,
+  };
+}
+
+export interface FakeProviderOptions {
+  /** Receives every quote request */
+  quotes?: QuoteParams[];
+  /** Receives every swap-instructions request */
+  swaps?: SwapInstructionParams[];
+  /** Output mints Jupiter finds no route to */
+  noRoute?: string[];
+  /** Quote answered (default `fakeQuote`) */
+  quote?: (p: QuoteParams) => Quote;
+}
+
+export function fakeProvider(options: FakeProviderOptions = {}): SwapProvider {
+  const { quotes = [], swaps = [], noRoute = [], quote = fakeQuote } = options;
+  return {
+    async getQuote(p) {
+      quotes.push(p);
+      if (noRoute.includes(p.outputMint)) {
+        throw new JupiterApiError("Quote HTTP 400", 400, "COULD_NOT_FIND_ANY_ROUTE");
+      }
+      return quote(p);
+    },
+    async getSwapInstructions(p) {
+      swaps.push(p);
+      const { quoteResponse } = p;
+      return {
+        swapInstruction: {
+          programId: FAKE_DEX,
+          accounts: [
+            { pubkey: user, isSigner: true, isWritable: true },
+            { pubkey: quoteResponse.inputMint, isSigner: false, isWritable: false },
+            { pubkey: quoteResponse.outputMint, isSigner: false, isWritable: false },
+          ],
+          data: Buffer.from(`${quoteResponse.inAmount}`).toString("base64"),
+        },
+        addressLookupTableAddresses: [],
+      };
+    },
+  };
+}
+
+export interface FakeConnectionOptions {
+  /** Accounts that do not exist */
+  missing?: string[];
+  /** Token accounts (165 bytes, SPL Token) by address */
+  tokenAccounts?: Record<string, { mint: string; owner?: string; amount?: bigint }>;
+  /** Lamports of every existing account (default 10 SOL) */
+  lamports?: number;
+}
+
+type FakeTokenAccount = NonNullable<FakeConnectionOptions["tokenAccounts"]>[string];
+
+function tokenAccountData(token: FakeTokenAccount): Buffer {
+  const data = Buffer.alloc(165);
+  new PublicKey(token.mint).toBuffer().copy(data, 0);
+  new PublicKey(token.owner ?? user).toBuffer().copy(data, 32);
+  data.writeBigUInt64LE(token.amount ?? 0n, 64);
+  return data;
+}
+
+/**
+ * Fake `Connection`: mints and wallets exist, recent priority fees are
+ * 5, 1, 100, 20 µLamports, simulation succeeds with 100k CU, no ALT resolves.
+ */
+export function fakeConnection(options: FakeConnectionOptions = {}): Connection {
+  const { missing = [], tokenAccounts = {}, lamports = 10_000_000_000 } = options;
+  return {
+    async getLatestBlockhash() {
+      return { blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 1 };
+    },
+    async getMultipleAccountsInfo(keys: PublicKey[]) {
+      return keys.map((k) => {
+        const address = k.toBase58();
+        if (missing.includes(address)) return null;
+        const token = tokenAccounts[address];
+        let data: Buffer;
+        if (token) {
+          data = tokenAccountData(token);
+        } else {
+          data = Buffer.alloc(82);
+          data.set([6, 1], 44); // decimals, initialized
+        }
+        return { owner: new PublicKey(TOKEN_PROGRAM), data, lamports, executable: false };
+      });
+    },
+    async getTokenAccountsByOwner(owner: PublicKey, filter: { programId: PublicKey }) {
+      const value = Object.entries(tokenAccounts)
+        .filter(([address, token]) => !missing.includes(address) && (token.owner ?? user) === owner.toBase58())
+        .filter(() => filter.programId.toBase58() === TOKEN_PROGRAM)
+        .map(([address, token]) => ({
+          pubkey: new PublicKey(address),
+          account: { owner: new PublicKey(TOKEN_PROGRAM), data: tokenAccountData(token), lamports, executable: false },
+        }));
+      return { context: { slot: 1 }, value };
+    },
+    async getRecentPrioritizationFees() {
+      return [5, 1, 100, 20].map((prioritizationFee, slot) => ({ slot, prioritizationFee }));
+    },
+    async simulateTransaction() {
+      return { value: { err: null, logs: [], unitsConsumed: 100_000 } };
+    },
+    async getAddressLookupTable() {
+      return { value: null };
+    },
+  } as unknown as Connection;
+}
+
+/**
+ * The user's ATA of a mint (SPL Token).
+ */
+export function ata(mint: string, owner = user): string {
+  return getAssociatedTokenAddress(new PublicKey(owner), new PublicKey(mint)).toBase58();
+}
+
+/**
+ * Program of each instruction of a compiled transaction, in order.
+ */
+export function programIds(tx: VersionedTransaction): string[] {
+  const keys = tx.message.staticAccountKeys;
+  return tx.message.compiledInstructions.map((ix) => keys[ix.programIdIndex].toBase58());
+}
@@ -0,0 +1,148 @@
+// tests/jupiterClient.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * JupiterClient Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Runs the client against a local HTTP server standing in for Jupiter.
+ *
+ * - Verifies the base URL, API key header and routing query parameters
+ * - Verifies `Retry-After` takes precedence over the backoff delay
+ * - Verifies request timeouts are retried, then surface as `JupiterApiError`
+ * - Verifies `timeoutMs` is a hard deadline, even for a body that keeps trickling
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { JupiterApiError, JupiterClient } from "../src/lib/jupiter.js";
+
+const quote = {
+  inputMint: "in",
+  inAmount: "1000",
+  outputMint: "out",
+  outAmount: "2000",
+  otherAmountThreshold: "1990",
+  swapMode: "ExactIn",
+  slippageBps: 50,
+  priceImpactPct: "0",
+  routePlan: [],
+  contextSlot: 1,
+  timeTaken: 0,
+};
+
+let server: Server;
+let baseUrl: string;
+let handler: (req: IncomingMessage, res: ServerResponse) => void;
+
+beforeAll(async () => {
+  server = createServer((req, res) => handler(req, res));
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((r) => server.close(r));
+});
+
+const params = { inputMint: "in", outputMint: "out", amount: "1000", slippageBps: 50 };
+const silent = { warn: () => {} };
+
+describe("JupiterClient", () => {
+  it("uses the base URL and API key, and honours Retry-After", async () => {
+    const seen: Array<{ url?: string; key?: string | string[] }> = [];
+    handler = (req, res) => {
+      seen.push({ url: req.url, key: req.headers["x-api-key"] });
+      if (seen.length === 1) {
+        res.writeHead(429, { "retry-after": "0" }).end("{}");
+        return;
+      }
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(quote));
+    };
+
+    const warnings: string[] = [];
+    const client = new JupiterClient({
+      baseUrl,
+      apiKey: "secret",
+      // A backoff delay this long would time the test out: only Retry-After can apply
+      retry: { baseDelayMs: 60_000, maxDelayMs: 60_000 },
+      logger: { warn: (m) => warnings.push(m) },
+    });
+
+    await expect(client.getQuote(params)).resolves.toMatchObject({ outAmount: "2000" });
+    expect(seen).toHaveLength(2);
+    expect(seen[1].url).toMatch(/^\/api\/quote\?inputMint=in&outputMint=out&amount=1000/);
+    expect(seen[1].key).toBe("secret");
+    expect(warnings[0]).toMatch(/429, retrying in 0ms/);
+  });
+
+  it("sends routing options as query parameters", async () => {
+    let url = "";
+    handler = (req, res) => {
+      url = req.url!;
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(quote));
+    };
+
+    await new JupiterClient({ baseUrl, logger: silent }).getQuote({
+      ...params,
+      maxAccounts: 24,
+      dexes: ["Raydium", "Orca V2"],
+      onlyDirectRoutes: true,
+    });
+    const query = new URL(url, baseUrl).searchParams;
+    expect(query.get("maxAccounts")).toBe("24");
+    expect(query.get("dexes")).toBe("Raydium,Orca V2");
+    expect(query.get("onlyDirectRoutes")).toBe("true");
+    expect(query.has("excludeDexes")).toBe(false);
+  });
+
+  it("retries timeouts within the policy, then throws JupiterApiError", async () => {
+    let calls = 0;
+    handler = () => {
+      calls++; // never answers
+    };
+
+    const client = new JupiterClient({
+      baseUrl,
+      timeoutMs: 50,
+      retry: { maxRetries: 1, baseDelayMs: 0 },
+      logger: silent,
+    });
+
+    const started = Date.now();
+    const err = await client.getQuote(params).catch((e) => e);
+    expect(Date.now() - started).toBeLessThan(1_000);
+    expect(err).toBeInstanceOf(JupiterApiError);
+    expect(err).toMatchObject({ status: 0, code: "PROVIDER_ERROR" });
+    expect(calls).toBe(2);
+  });
+
+  it("cuts off a response body that keeps trickling past the timeout", async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      const drip = setInterval(() => res.write(" "), 10);
+      res.on("close", () => clearInterval(drip));
+    };
+
+    const client = new JupiterClient({ baseUrl, timeoutMs: 100, retry: { maxRetries: 0 }, logger: silent });
+
+    const started = Date.now();
+    const err = await client.getQuote(params).catch((e) => e);
+    expect(Date.now() - started).toBeLessThan(1_000);
+    expect(err).toBeInstanceOf(JupiterApiError);
+    expect(err).toMatchObject({ status: 0 });
+  });
+
+  it("does not retry client errors", async () => {
+    let calls = 0;
+    handler = (_req, res) => {
+      calls++;
+      res.writeHead(400).end(JSON.stringify({ errorCode: "COULD_NOT_FIND_ANY_ROUTE" }));
+    };
+
+    const err = await new JupiterClient({ baseUrl, logger: silent }).getQuote(params).catch((e) => e);
+    expect(err).toMatchObject({ status: 400, errorCode: "COULD_NOT_FIND_ANY_ROUTE" });
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,72 @@
+// tests/mints.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Mint Info Service Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Unit tests for batched, cached mint decimals lookup.
+ *
+ * - Verifies SPL Token and Token-2022 (with extensions) mints are decoded
+ * - Verifies lookups are batched and cached across calls
+ * - Verifies non-mint accounts are rejected, with the index of the route using them
+ */
+
+import { describe, it, expect } from "vitest";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { getMintInfos } from "../src/lib/mints.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "../src/lib/spl.js";
+
+function mintAccount(owner: PublicKey, decimals: number, size = 82) {
+  const data = Buffer.alloc(size);
+  data[44] = decimals;
+  data[45] = 1;
+  return { owner, data, lamports: 0, executable: false };
+}
+
+describe("getMintInfos", () => {
+  it("decodes SPL Token and Token-2022 mints in one batched, cached call", async () => {
+    const classic = Keypair.generate().publicKey.toBase58();
+    const t22 = Keypair.generate().publicKey.toBase58();
+    const batches: string[][] = [];
+
+    const conn = {
+      async getMultipleAccountsInfo(keys: PublicKey[]) {
+        batches.push(keys.map((k) => k.toBase58()));
+        return keys.map((k) =>
+          k.toBase58() === classic
+            ? mintAccount(TOKEN_PROGRAM_ID, 6)
+            : mintAccount(TOKEN_2022_PROGRAM_ID, 9, 234) // mint + extensions
+        );
+      },
+    } as unknown as Connection;
+
+    const infos = await getMintInfos(conn, [classic, t22, classic]);
+    expect(infos.get(classic)).toMatchObject({ decimals: 6, programId: TOKEN_PROGRAM_ID.toBase58() });
+    expect(infos.get(t22)).toMatchObject({ decimals: 9, programId: TOKEN_2022_PROGRAM_ID.toBase58() });
+    expect(batches).toEqual([[classic, t22]]);
+
+    await getMintInfos(conn, [t22, classic]);
+    expect(batches).toHaveLength(1); // served from cache
+  });
+
+  it("rejects accounts that are not token mints", async () => {
+    const notAMint = Keypair.generate().publicKey.toBase58();
+    const conn = {
+      async getMultipleAccountsInfo(keys: PublicKey[]) {
+        return keys.map(() => mintAccount(PublicKey.default, 6));
+      },
+    } as unknown as Connection;
+
+    await expect(getMintInfos(conn, [notAMint])).rejects.toThrow(/not a token mint/);
+
+    const routes = [
+      { inputMint: PublicKey.default.toBase58(), outputMint: PublicKey.default.toBase58() },
+      { inputMint: notAMint, outputMint: PublicKey.default.toBase58() },
+    ];
+    await expect(getMintInfos(conn, [notAMint], routes)).rejects.toMatchObject({
+      code: "INVALID_ROUTE",
+      routeIndex: 1,
+      message: expect.stringMatching(/^order\[1\] Mint not found/),
+    });
+  });
+});
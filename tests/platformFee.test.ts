@@ -0,0 +1,87 @@
+// tests/platformFee.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Platform Fee Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Offline tests of integrator platform fees, with a fake `SwapProvider` and a
+ * fake `Connection` whose fee accounts are token accounts of a given mint.
+ *
+ * - Verifies fee resolution (per-route override, per-mint accounts, fee mint by swap mode)
+ * - Verifies `platformFeeBps` reaches the quote and `feeAccount` the swap-instructions
+ * - Verifies the fees are reported in the diagnostics
+ * - Verifies a fee account of the wrong mint fails before quoting
+ */
+
+import { describe, it, expect } from "vitest";
+import { Keypair } from "@solana/web3.js";
+import { buildMultiSwapTxV0 } from "../src/core/buildMultiSwapTxV0.js";
+import { resolvePlatformFee } from "../src/core/pipeline/PlatformFeeStep.js";
+import type { MultiRouteInput, QuoteParams, SwapInstructionParams } from "../src/types.js";
+import { SOL, fakeConnection, fakeProvider, user } from "./helpers.js";
+
+const MINT_A = Keypair.generate().publicKey.toBase58();
+const MINT_B = Keypair.generate().publicKey.toBase58();
+const FEE_A = Keypair.generate().publicKey.toBase58();
+const FEE_B = Keypair.generate().publicKey.toBase58();
+
+const buyA: MultiRouteInput = { side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 };
+const buyB: MultiRouteInput = { ...buyA, outputMint: MINT_B };
+
+/** Fee accounts hold the mint given here */
+const withFeeAccounts = (feeMints: Record<string, string>) =>
+  fakeConnection({
+    tokenAccounts: Object.fromEntries(Object.entries(feeMints).map(([address, mint]) => [address, { mint }])),
+  });
+
+describe("resolvePlatformFee", () => {
+  it("takes the route's fee, else the bundle's, on the output mint (input mint for ExactOut)", () => {
+    const bundle = { feeBps: 20, feeAccount: { [MINT_A]: FEE_A, [SOL]: FEE_B } };
+
+    expect(resolvePlatformFee(0, buyA, bundle)).toEqual({ index: 0, feeBps: 20, feeAccount: FEE_A, mint: MINT_A });
+    expect(resolvePlatformFee(1, { ...buyA, swapMode: "ExactOut" }, bundle)).toMatchObject({ mint: SOL });
+    expect(resolvePlatformFee(2, buyB, bundle)).toBeUndefined();
+    expect(resolvePlatformFee(3, { ...buyB, platformFee: { feeBps: 5, feeAccount: FEE_B } }, bundle)).toMatchObject({
+      feeBps: 5,
+      feeAccount: FEE_B,
+    });
+    expect(resolvePlatformFee(4, { ...buyA, platformFee: { feeBps: 0, feeAccount: FEE_A } }, bundle)).toBeUndefined();
+  });
+});
+
+describe("platform fees in buildMultiSwapTxV0", () => {
+  it("sends the fee bps and account to the provider and reports the fees", async () => {
+    const quotes: QuoteParams[] = [];
+    const swaps: SwapInstructionParams[] = [];
+
+    const { diagnostics } = await buildMultiSwapTxV0({
+      routes: [buyA, buyB],
+      userPublicKey: user,
+      platformFee: { feeBps: 25, feeAccount: { [MINT_A]: FEE_A } },
+      provider: fakeProvider({ quotes, swaps }),
+      connection: withFeeAccounts({ [FEE_A]: MINT_A }),
+    });
+
+    const byMint = (mint: string) => quotes.find((q) => q.outputMint === mint);
+    expect(byMint(MINT_A)?.platformFeeBps).toBe(25);
+    expect(byMint(MINT_B)).not.toHaveProperty("platformFeeBps");
+    expect(swaps.find((s) => s.quoteResponse.outputMint === MINT_A)?.feeAccount).toBe(FEE_A);
+    expect(swaps.find((s) => s.quoteResponse.outputMint === MINT_B)?.feeAccount).toBeUndefined();
+    expect(diagnostics.platformFees).toEqual([{ index: 0, feeBps: 25, feeAccount: FEE_A, mint: MINT_A, amount: "25" }]);
+  });
+
+  it("rejects a fee account of another mint before quoting", async () => {
+    const quotes: QuoteParams[] = [];
+
+    const err = await buildMultiSwapTxV0({
+      routes: [buyA, { ...buyB, platformFee: { feeBps: 10, feeAccount: FEE_B } }],
+      userPublicKey: user,
+      provider: fakeProvider({ quotes }),
+      connection: withFeeAccounts({ [FEE_B]: MINT_A }),
+    }).catch((e) => e);
+
+    expect(err).toMatchObject({ code: "INVALID_ROUTE", routeIndex: 1, step: "PlatformFeeStep" });
+    expect(err.message).toContain(`expected ${MINT_B}`);
+    expect(quotes).toEqual([]);
+  });
+});
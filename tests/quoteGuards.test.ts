@@ -0,0 +1,60 @@
+// tests/quoteGuards.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Quote Guard Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Unit tests for the per-route price impact and minimum output guards.
+ *
+ * - Verifies `priceImpactPct` (a fraction) is compared as a percentage
+ * - Verifies the guaranteed output depends on the swap mode
+ * - Verifies the offending quote values are reported
+ */
+
+import { describe, it, expect } from "vitest";
+import { checkQuoteGuards } from "../src/core/quoteGuards.js";
+import type { Quote } from "../src/lib/jupiter.schemas.js";
+import type { MultiRouteInput } from "../src/types.js";
+
+const route: MultiRouteInput = { inputMint: "in", outputMint: "out", amount: "1000", slippageBps: 50 };
+
+function quote(q: Partial<Quote>): Quote {
+  return {
+    inputMint: "in",
+    outputMint: "out",
+    inAmount: "1000",
+    outAmount: "2000",
+    otherAmountThreshold: "1990",
+    swapMode: "ExactIn",
+    slippageBps: 50,
+    priceImpactPct: "0.003",
+    routePlan: [],
+    contextSlot: 1,
+    timeTaken: 0,
+    ...q,
+  };
+}
+
+describe("checkQuoteGuards", () => {
+  it("compares the price impact as a percentage", () => {
+    expect(checkQuoteGuards({ ...route, maxPriceImpactPct: 0.5 }, quote({}))).toBeUndefined();
+    expect(checkQuoteGuards({ ...route, maxPriceImpactPct: 0.2 }, quote({}))).toMatchObject({
+      guard: "maxPriceImpactPct",
+      code: "PRICE_IMPACT_TOO_HIGH",
+      quote: { priceImpactPct: "0.003", outAmount: "2000" },
+    });
+  });
+
+  it("checks the guaranteed output for the swap mode", () => {
+    // ExactIn: otherAmountThreshold is the minimum received after slippage
+    expect(checkQuoteGuards({ ...route, minOutAmount: "1990" }, quote({}))).toBeUndefined();
+    expect(checkQuoteGuards({ ...route, minOutAmount: "1995" }, quote({}))).toMatchObject({
+      code: "OUTPUT_BELOW_MINIMUM",
+      message: "guaranteed output 1990 below minOutAmount 1995",
+    });
+
+    // ExactOut: the output is exact, otherAmountThreshold is the maximum input
+    const exactOut = quote({ swapMode: "ExactOut", otherAmountThreshold: "1010" });
+    expect(checkQuoteGuards({ ...route, minOutAmount: "1995" }, exactOut)).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+// tests/quoteMultiSwap.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * quoteMultiSwap Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Offline tests of the quote-only preview, with a fake `SwapProvider` and
+ * a fake `Connection`.
+ *
+ * - Verifies no swap-instructions are requested
+ * - Verifies per-route amounts, minimum out, labels and platform fees
+ * - Verifies totals per output mint and skipped routes
+ */
+
+import { describe, it, expect } from "vitest";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { quoteMultiSwap } from "../src/core/quoteMultiSwap.js";
+import type { Quote } from "../src/lib/jupiter.schemas.js";
+import type { QuoteParams, SwapInstructionParams } from "../src/types.js";
+import { SOL, fakeConnection, fakeProvider, fakeQuote, user } from "./helpers.js";
+
+const MINT_A = Keypair.generate().publicKey.toBase58();
+const MINT_B = Keypair.generate().publicKey.toBase58();
+const MINT_C = Keypair.generate().publicKey.toBase58(); // no route
+
+function swapInfo(label: string) {
+  return {
+    ammKey: PublicKey.default.toBase58(),
+    label,
+    inputMint: SOL,
+    outputMint: MINT_A,
+    inAmount: "0",
+    outAmount: "0",
+    feeAmount: "0",
+    feeMint: SOL,
+  };
+}
+
+/** 2 out per unit in (10 less after slippage), split over two AMMs */
+function quote(p: QuoteParams): Quote {
+  const amount = BigInt(p.amount);
+  return {
+    ...fakeQuote(p),
+    outAmount: (amount * 2n).toString(),
+    otherAmountThreshold: (amount * 2n - 10n).toString(),
+    platformFee: { amount: "3", feeBps: 20 },
+    priceImpactPct: "0.001",
+    routePlan: [
+      { swapInfo: swapInfo("Raydium"), percent: 60, bps: 6000 },
+      { swapInfo: swapInfo("Orca"), percent: 40, bps: 4000 },
+      { swapInfo: swapInfo("Raydium"), percent: 100, bps: 10000 },
+    ],
+  };
+}
+
+describe("quoteMultiSwap", () => {
+  it("previews quotes and totals per output mint without building", async () => {
+    const swaps: SwapInstructionParams[] = [];
+    const buy = { side: "buy" as const, inputMint: SOL, slippageBps: 50 };
+    const preview = await quoteMultiSwap({
+      routes: [
+        { ...buy, outputMint: MINT_A, amount: "1000" },
+        { ...buy, outputMint: MINT_B, amount: "500" },
+        { ...buy, outputMint: MINT_A, amount: "200" },
+        { ...buy, outputMint: MINT_C, amount: "100" },
+      ],
+      userPublicKey: user,
+      provider: fakeProvider({ swaps, noRoute: [MINT_C], quote }),
+      connection: fakeConnection(),
+    });
+
+    expect(swaps).toEqual([]);
+
+    expect(preview.routes[0]).toMatchObject({
+      index: 0,
+      inAmount: "1000",
+      outAmount: "2000",
+      minOutAmount: "1990",
+      maxInAmount: "1000",
+      priceImpactPct: "0.001",
+      labels: ["Raydium", "Orca"],
+      platformFee: { amount: "3", feeBps: 20, mint: MINT_A },
+    });
+    expect(preview.totals).toEqual([
+      { mint: MINT_A, outAmount: "2400", minOutAmount: "2380", routeIndices: [0, 2] },
+      { mint: MINT_B, outAmount: "1000", minOutAmount: "990", routeIndices: [1] },
+    ]);
+    expect(preview.skipped).toEqual([{ index: 3, reason: "Quote HTTP 400", code: "COULD_NOT_FIND_ANY_ROUTE" }]);
+    expect(preview.requestedCount).toBe(4);
+  });
+});
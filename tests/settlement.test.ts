@@ -0,0 +1,127 @@
+// tests/settlement.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Settlement Report Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Settlement of a landed two-route bundle, from a fake parsed transaction.
+ *
+ * - Verifies realized fills and slippage vs quotes per route
+ * - Verifies SOL spent is net of fees and rent (wrap/unwrap cancels out)
+ * - Verifies the fee, CU price and rent breakdown
+ * - Verifies a route to another recipient settles on its destination account
+ * - Runs fully offline (no RPC, no Jupiter)
+ */
+
+import { describe, it, expect } from "vitest";
+import bs58 from "bs58";
+import { ComputeBudgetProgram, Connection, Keypair } from "@solana/web3.js";
+import { getSettlementReport } from "../src/core/settlement.js";
+import type { Quote } from "../src/lib/jupiter.schemas.js";
+import type { BuildMultiSwapResult } from "../src/types.js";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const MINT_A = Keypair.generate().publicKey.toBase58();
+const MINT_B = Keypair.generate().publicKey.toBase58();
+const user = Keypair.generate().publicKey;
+const RENT = 2_039_280;
+
+function leg(index: number, outputMint: string, inAmount: string, outAmount: string) {
+  const quote = { inputMint: SOL, outputMint, inAmount, outAmount, swapMode: "ExactIn" } as Quote;
+  return {
+    index,
+    route: { side: "buy" as const, inputMint: SOL, outputMint, amount: inAmount, slippageBps: 100 },
+    quote,
+  };
+}
+
+describe("getSettlementReport", () => {
+  it("reports realized fills, slippage and costs per route", async () => {
+    const build = {
+      legs: [leg(0, MINT_A, "1000000", "500"), leg(2, MINT_B, "2000000", "1000")],
+    } as unknown as BuildMultiSwapResult;
+
+    const price = ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 25_000 });
+    const keys = [user, ...[1, 2, 3].map(() => Keypair.generate().publicKey)]; // user, ATA A, ATA B, WSOL ATA
+    const parsed = {
+      slot: 7,
+      transaction: {
+        signatures: ["sig"],
+        message: {
+          accountKeys: keys.map((pubkey) => ({ pubkey })),
+          instructions: [{ programId: price.programId, accounts: [], data: bs58.encode(price.data) }],
+        },
+      },
+      meta: {
+        err: null,
+        fee: 6_000,
+        computeUnitsConsumed: 40_000,
+        // 3 SOL swapped, 6000 fee, two new ATAs; the WSOL ATA is opened and closed
+        preBalances: [10_000_000, 0, 0, 0],
+        postBalances: [10_000_000 - 3_000_000 - 6_000 - 2 * RENT, RENT, RENT, 0],
+        preTokenBalances: [],
+        postTokenBalances: [
+          { accountIndex: 1, mint: MINT_A, owner: user.toBase58(), uiTokenAmount: { amount: "495" } },
+          { accountIndex: 2, mint: MINT_B, owner: user.toBase58(), uiTokenAmount: { amount: "1000" } },
+        ],
+      },
+    };
+    const connection = { getParsedTransaction: async () => parsed } as unknown as Connection;
+
+    const report = await getSettlementReport("sig", build, { connection });
+
+    expect(report.routes).toEqual([
+      expect.objectContaining({ index: 0, actualIn: "1000000", actualOut: "495", slippageBps: 100, shared: true }),
+      expect.objectContaining({ index: 2, actualIn: "2000000", actualOut: "1000", slippageBps: 0, shared: true }),
+    ]);
+    expect(report.balanceChanges).toEqual(
+      expect.arrayContaining([
+        { mint: SOL, delta: "-3000000" },
+        { mint: MINT_A, delta: "495" },
+        { mint: MINT_B, delta: "1000" },
+      ])
+    );
+    expect(report.costs).toEqual({
+      fee: "6000",
+      baseFee: "5000",
+      priorityFee: "1000",
+      computeUnitPrice: "25000",
+      computeUnitsConsumed: 40_000,
+      rent: String(2 * RENT),
+      rentRefunded: "0",
+    });
+  });
+
+  it("reads the output of a route with a destination from its destination account", async () => {
+    const treasuryAta = Keypair.generate().publicKey;
+    const l = leg(0, MINT_A, "1000000", "500");
+    const build = {
+      legs: [{ ...l, route: { ...l.route, destinationTokenAccount: treasuryAta.toBase58() } }],
+    } as unknown as BuildMultiSwapResult;
+
+    const parsed = {
+      slot: 8,
+      transaction: {
+        signatures: ["sig"],
+        message: { accountKeys: [user, treasuryAta].map((pubkey) => ({ pubkey })), instructions: [] },
+      },
+      meta: {
+        err: null,
+        fee: 5_000,
+        computeUnitsConsumed: 30_000,
+        preBalances: [10_000_000, RENT],
+        postBalances: [10_000_000 - 1_000_000 - 5_000, RENT],
+        preTokenBalances: [{ accountIndex: 1, mint: MINT_A, owner: "treasury", uiTokenAmount: { amount: "100" } }],
+        postTokenBalances: [{ accountIndex: 1, mint: MINT_A, owner: "treasury", uiTokenAmount: { amount: "598" } }],
+      },
+    };
+    const connection = { getParsedTransaction: async () => parsed } as unknown as Connection;
+
+    const report = await getSettlementReport("sig", build, { connection });
+
+    expect(report.routes).toEqual([
+      expect.objectContaining({ index: 0, actualIn: "1000000", actualOut: "498", slippageBps: 40, shared: false }),
+    ]);
+    expect(report.balanceChanges).toEqual([{ mint: SOL, delta: "-1000000" }]);
+  });
+});
@@ -0,0 +1,82 @@
+// tests/signers.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Signers Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Unit tests for the signer implementations and the payer check of `execute`.
+ *
+ * - Verifies keypair, env-var and JSON keyfile signers resolve the same key
+ * - Verifies malformed secret keys throw `SignerError`
+ * - Verifies `execute` refuses a signer that is not the fee payer
+ * - Runs fully offline (no RPC, no Jupiter)
+ */
+
+import { describe, it, expect } from "vitest";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import bs58 from "bs58";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { execute } from "../src/core/execute.js";
+import { KeypairSigner } from "../src/core/signers/KeypairSigner.js";
+import { SignerError } from "../src/errors.js";
+
+function transferTx(payer: PublicKey): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1 })],
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+describe("signers", () => {
+  const keypair = Keypair.generate();
+
+  it("loads the same key from env and keyfile", async () => {
+    process.env.TEST_SIGNER_B58 = bs58.encode(keypair.secretKey);
+    const fromEnv = KeypairSigner.fromEnv("TEST_SIGNER_B58");
+    delete process.env.TEST_SIGNER_B58;
+
+    const path = join(await mkdtemp(join(tmpdir(), "signer-")), "id.json");
+    await writeFile(path, JSON.stringify(Array.from(keypair.secretKey)));
+    const fromFile = await KeypairSigner.fromKeyfile(path);
+
+    expect(fromEnv.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(fromFile.publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(() => KeypairSigner.fromEnv("TEST_SIGNER_B58")).toThrow(/Missing TEST_SIGNER_B58/);
+
+    const signed = await fromFile.signTransaction(transferTx(keypair.publicKey));
+    expect(signed.signatures[0].some((b) => b !== 0)).toBe(true);
+  });
+
+  it("throws SignerError on malformed secret keys", async () => {
+    process.env.TEST_SIGNER_B58 = "not-base58-0OIl";
+    expect(() => KeypairSigner.fromEnv("TEST_SIGNER_B58")).toThrow(SignerError);
+    process.env.TEST_SIGNER_B58 = bs58.encode(keypair.secretKey.slice(0, 40));
+    expect(() => KeypairSigner.fromEnv("TEST_SIGNER_B58")).toThrow(/Invalid secret key in TEST_SIGNER_B58/);
+    delete process.env.TEST_SIGNER_B58;
+
+    // 64 bytes whose public half does not match the secret half
+    const path = join(await mkdtemp(join(tmpdir(), "signer-")), "id.json");
+    await writeFile(path, JSON.stringify([...keypair.secretKey.slice(0, 32), ...new Uint8Array(32).fill(7)]));
+    await expect(KeypairSigner.fromKeyfile(path)).rejects.toMatchObject({ code: "SIGNER_ERROR" });
+  });
+
+  it("refuses a signer that is not the payer before any RPC call", async () => {
+    const noRpc = {} as unknown as Connection;
+    const other = new KeypairSigner(Keypair.generate());
+
+    await expect(execute(transferTx(keypair.publicKey), { signer: other, connection: noRpc })).rejects.toThrow(
+      /does not match the transaction payer/
+    );
+  });
+});
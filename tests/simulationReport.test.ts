@@ -0,0 +1,156 @@
+// tests/simulationReport.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Simulation Report Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Unit tests for the log parsing and failure classification behind
+ * `simulateReport`, and `simulateReport` itself against a fake `Connection`.
+ *
+ * - Attributes compute units to top-level instructions only (CPIs excluded)
+ * - Extracts the failing instruction index from an InstructionError
+ * - Classifies slippage, insufficient funds, missing accounts and CU exhaustion
+ * - Maps the failure and compute units to routes, reads balance deltas from the
+ *   post-simulation accounts
+ * - Runs fully offline (no RPC, no Jupiter)
+ */
+
+import { describe, it, expect } from "vitest";
+import { Connection, Keypair, PublicKey, SimulateTransactionConfig } from "@solana/web3.js";
+import { buildMultiSwapTxV0 } from "../src/core/buildMultiSwapTxV0.js";
+import {
+  classifySimulationFailure,
+  failedInstructionIndex,
+  parseInstructionComputeUnits,
+  simulateReport,
+} from "../src/core/simulationReport.js";
+import { SOL, ata, fakeConnection, fakeProvider, user } from "./helpers.js";
+
+const JUP = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+const TOKEN = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const CB = "ComputeBudget111111111111111111111111111111";
+
+describe("parseInstructionComputeUnits", () => {
+  it("sums units per top-level instruction, ignoring inner invocations", () => {
+    const logs = [
+      `Program ${CB} invoke [1]`,
+      `Program ${CB} success`,
+      `Program ${JUP} invoke [1]`,
+      `Program ${TOKEN} invoke [2]`,
+      `Program ${TOKEN} consumed 4000 of 190000 compute units`,
+      `Program ${TOKEN} success`,
+      `Program ${JUP} consumed 50000 of 200000 compute units`,
+      `Program ${JUP} success`,
+      `Program ${JUP} invoke [1]`,
+      `Program ${JUP} consumed 30000 of 150000 compute units`,
+      `Program ${JUP} success`,
+    ];
+
+    expect(parseInstructionComputeUnits(logs)).toEqual([0, 50000, 30000]);
+  });
+});
+
+describe("failedInstructionIndex", () => {
+  it("reads the index of an InstructionError", () => {
+    expect(failedInstructionIndex({ InstructionError: [3, { Custom: 6001 }] })).toBe(3);
+    expect(failedInstructionIndex("AccountNotFound")).toBeUndefined();
+  });
+});
+
+describe("classifySimulationFailure", () => {
+  it("detects slippage from logs or Jupiter's custom error", () => {
+    const err = { InstructionError: [2, { Custom: 6001 }] };
+    expect(classifySimulationFailure(err, ["Program log: Error: SlippageToleranceExceeded"]).reason).toBe(
+      "slippage-exceeded"
+    );
+    expect(classifySimulationFailure(err, []).reason).toBe("slippage-exceeded");
+  });
+
+  it("detects insufficient funds", () => {
+    const err = { InstructionError: [4, { Custom: 1 }] };
+    const logs = ["Program log: Error: insufficient funds"];
+    expect(classifySimulationFailure(err, logs).reason).toBe("insufficient-funds");
+    expect(classifySimulationFailure("InsufficientFundsForFee", []).reason).toBe("insufficient-funds");
+  });
+
+  it("detects missing accounts", () => {
+    expect(classifySimulationFailure("AccountNotFound", []).reason).toBe("account-not-found");
+  });
+
+  it("detects compute exhaustion", () => {
+    const err = { InstructionError: [2, "ProgramFailedToComplete"] };
+    const logs = [`Program ${JUP} failed: exceeded CUs meter at BPF instruction`];
+    expect(classifySimulationFailure(err, logs).reason).toBe("compute-exhausted");
+  });
+
+  it("falls back to unknown", () => {
+    expect(classifySimulationFailure({ InstructionError: [0, "InvalidArgument"] }, []).reason).toBe("unknown");
+  });
+});
+
+describe("simulateReport", () => {
+  it("maps the failure and compute units to routes and reports balance deltas", async () => {
+    const MINT_A = Keypair.generate().publicKey.toBase58();
+    const MINT_B = Keypair.generate().publicKey.toBase58();
+    const buy = { side: "buy" as const, inputMint: SOL, slippageBps: 50 };
+    const build = await buildMultiSwapTxV0({
+      routes: [
+        { ...buy, outputMint: MINT_A, amount: "5000" },
+        { ...buy, outputMint: MINT_B, amount: "6000" },
+      ],
+      userPublicKey: user,
+      provider: fakeProvider(),
+      connection: fakeConnection(),
+    });
+    const routes = build.diagnostics.instructionRoutes;
+
+    // Before: 100 of MINT_A. After: 1100 of MINT_A, 990 of MINT_B, 10_000 lamports spent
+    const pre = fakeConnection({ tokenAccounts: { [ata(MINT_A)]: { mint: MINT_A, amount: 100n } } });
+    const post = fakeConnection({
+      lamports: 9_999_990_000,
+      tokenAccounts: {
+        [ata(MINT_A)]: { mint: MINT_A, amount: 1100n },
+        [ata(MINT_B)]: { mint: MINT_B, amount: 990n },
+        [ata(SOL)]: { mint: SOL, amount: 0n },
+      },
+    });
+    let requested: string[] = [];
+    const failing = routes.indexOf(1);
+    const conn = {
+      ...pre,
+      async simulateTransaction(_tx: unknown, config: SimulateTransactionConfig) {
+        requested = (config.accounts?.addresses ?? []) as string[];
+        const accounts = await post.getMultipleAccountsInfo(requested.map((a) => new PublicKey(a)));
+        // Route instructions consume 10_000 × (route + 1) units, the others 100
+        const logs = routes.flatMap((route, k) => [
+          `Program P${k} invoke [1]`,
+          `Program P${k} consumed ${route === null ? 100 : 10_000 * (route + 1)} of 200000 compute units`,
+          `Program P${k} ${k === failing ? "failed: custom program error: 0x1771" : "success"}`,
+        ]);
+        return {
+          value: {
+            err: { InstructionError: [failing, { Custom: 6001 }] },
+            logs,
+            unitsConsumed: 30_000,
+            accounts: accounts.map((a) => a && { ...a, data: [Buffer.from(a.data).toString("base64"), "base64"] }),
+          },
+        };
+      },
+    } as unknown as Connection;
+
+    const report = await simulateReport(build, { connection: conn });
+
+    expect(requested).toEqual([user, ata(SOL), ata(MINT_A), ata(MINT_B)]);
+    expect(report.ok).toBe(false);
+    expect(report.failure).toMatchObject({ reason: "slippage-exceeded", instructionIndex: failing, routeIndex: 1 });
+    expect(report.routeComputeUnits).toEqual([
+      { index: 0, unitsConsumed: 10_000 },
+      { index: 1, unitsConsumed: 20_000 },
+    ]);
+    expect(report.balanceChanges).toEqual([
+      { account: ata(MINT_A), mint: MINT_A, pre: "100", post: "1100", delta: "1000" },
+      { account: ata(MINT_B), mint: MINT_B, pre: "0", post: "990", delta: "990" },
+    ]);
+    expect(report.lamportsDelta).toBe("-10000");
+  });
+});
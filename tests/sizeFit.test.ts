@@ -0,0 +1,50 @@
+// tests/sizeFit.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Size-aware Re-quoting Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Unit tests for the routing tightening of `onTooLarge: "requote"`.
+ *
+ * - Verifies the heaviest route (exclusive accounts) is tightened first
+ * - Verifies `maxAccounts` goes down by a quarter to the floor, then direct-only
+ * - Verifies bundle routing defaults are taken into account
+ */
+
+import { describe, it, expect } from "vitest";
+import { nextRequote } from "../src/core/sizeFit.js";
+import type { MultiRouteInput } from "../src/types.js";
+
+const route: MultiRouteInput = { inputMint: "in", outputMint: "out", amount: "1", slippageBps: 50 };
+
+describe("nextRequote", () => {
+  it("tightens the heaviest route, down to the floor then direct-only", () => {
+    const usage = [
+      { index: 0, accounts: 20, exclusiveAccounts: 12 },
+      { index: 1, accounts: 40, exclusiveAccounts: 30 },
+    ];
+
+    expect(nextRequote([route, route], {}, usage, 16)).toEqual({ index: 1, maxAccounts: 30 });
+    expect(nextRequote([route, { ...route, maxAccounts: 18 }], {}, usage, 16)).toEqual({
+      index: 1,
+      maxAccounts: 16,
+    });
+    expect(nextRequote([route, { ...route, maxAccounts: 16 }], {}, usage, 16)).toEqual({
+      index: 1,
+      maxAccounts: 16,
+      onlyDirectRoutes: true,
+    });
+    // Heaviest exhausted: next one
+    expect(nextRequote([route, { ...route, maxAccounts: 16, onlyDirectRoutes: true }], {}, usage, 16)).toEqual({
+      index: 0,
+      maxAccounts: 16,
+    });
+  });
+
+  it("starts from the bundle defaults and stops when nothing is left", () => {
+    const usage = [{ index: 0, accounts: 40, exclusiveAccounts: 30 }];
+
+    expect(nextRequote([route], { maxAccounts: 24 }, usage, 16)).toEqual({ index: 0, maxAccounts: 18 });
+    expect(nextRequote([route], { maxAccounts: 16, onlyDirectRoutes: true }, usage, 16)).toBeUndefined();
+  });
+});
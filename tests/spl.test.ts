@@ -0,0 +1,81 @@
+// tests/spl.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * SPL Helpers Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Unit tests for the local SOL wrap/unwrap and token transfer instruction builders.
+ *
+ * - Verifies the wrap sequence: ATA create (idempotent) → transfer → SyncNative
+ * - Verifies the unwrap CloseAccount targets the WSOL ATA and refunds the owner
+ * - Verifies the TransferChecked encoding (amount, decimals, token program)
+ * - Runs fully offline (no RPC, no Jupiter)
+ */
+
+import { describe, it, expect } from "vitest";
+import { Keypair, SystemProgram } from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  buildUnwrapSolInstruction,
+  buildWrapSolInstructions,
+  getAssociatedTokenAddress,
+  transferCheckedIx,
+} from "../src/lib/spl.js";
+
+describe("SOL wrap/unwrap builder", () => {
+  const owner = Keypair.generate().publicKey;
+  const wsolAta = getAssociatedTokenAddress(owner, NATIVE_MINT);
+
+  it("builds create-idempotent, transfer and SyncNative", () => {
+    const [create, transfer, sync] = buildWrapSolInstructions(owner, 1_500_000n);
+
+    expect(create.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)).toBe(true);
+    expect(create.data).toEqual(Buffer.from([1])); // CreateIdempotent
+    expect(create.keys[1].pubkey.equals(wsolAta)).toBe(true);
+    expect(create.keys[2].pubkey.equals(owner)).toBe(true); // owner (dedup key)
+    expect(create.keys[3].pubkey.equals(NATIVE_MINT)).toBe(true); // mint (dedup key)
+
+    expect(transfer.programId.equals(SystemProgram.programId)).toBe(true);
+    expect(transfer.keys[1].pubkey.equals(wsolAta)).toBe(true);
+    expect(transfer.data.readBigUInt64LE(4)).toBe(1_500_000n);
+
+    expect(sync.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+    expect(sync.data).toEqual(Buffer.from([17])); // SyncNative
+    expect(sync.keys[0].pubkey.equals(wsolAta)).toBe(true);
+  });
+
+  it("builds CloseAccount on the WSOL ATA", () => {
+    const close = buildUnwrapSolInstruction(owner);
+
+    expect(close.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+    expect(close.data).toEqual(Buffer.from([9])); // CloseAccount
+    expect(close.keys.map((k) => k.pubkey.toBase58())).toEqual([
+      wsolAta.toBase58(),
+      owner.toBase58(),
+      owner.toBase58(),
+    ]);
+    expect(close.keys[2].isSigner).toBe(true);
+  });
+});
+
+describe("transferCheckedIx", () => {
+  it("encodes the amount and decimals for the given token program", () => {
+    const [source, mint, destination, owner] = Array.from({ length: 4 }, () => Keypair.generate().publicKey);
+    const ix = transferCheckedIx(source, mint, destination, owner, 2n ** 40n, 9, TOKEN_2022_PROGRAM_ID);
+
+    expect(ix.programId.equals(TOKEN_2022_PROGRAM_ID)).toBe(true);
+    expect(ix.data[0]).toBe(12); // TransferChecked
+    expect(ix.data.readBigUInt64LE(1)).toBe(2n ** 40n);
+    expect(ix.data[9]).toBe(9);
+    expect(ix.keys.map((k) => k.pubkey)).toEqual([source, mint, destination, owner]);
+    expect(ix.keys.map((k) => [k.isSigner, k.isWritable])).toEqual([
+      [false, true],
+      [false, false],
+      [false, true],
+      [true, false],
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+// tests/validation.test.ts
+/**
+ * ----------------------------------------------------------------------------
+ * Route Validation Tests
+ * ----------------------------------------------------------------------------
+ *
+ * Unit tests for the up-front route checks (no network involved).
+ *
+ * - Verifies every issue of every route is reported at once, with its index
+ * - Verifies amount exclusivity, positivity and percent/all restrictions
+ * - Verifies routing options, per route and bundle-wide
+ * - Verifies platform fee bps / accounts, per route and bundle-wide
+ * - Verifies destination / destinationTokenAccount
+ * - Verifies the priority fee and compute unit limit strategies
+ * - Verifies wallet / empty route list errors
+ */
+
+import { describe, it, expect } from "vitest";
+import { Keypair } from "@solana/web3.js";
+import { ValidateRoutesStep, validateRoute } from "../src/core/pipeline/ValidateRoutesStep.js";
+import { RouteValidationError } from "../src/errors.js";
+import type { MultiRouteInput, StepContext } from "../src/types.js";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const MINT_A = Keypair.generate().publicKey.toBase58();
+const user = Keypair.generate().publicKey.toBase58();
+
+const ok: MultiRouteInput = { side: "buy", inputMint: SOL, outputMint: MINT_A, amount: "5000", slippageBps: 50 };
+
+function run(routes: MultiRouteInput[], userPublicKey = user, extra: Partial<StepContext> = {}) {
+  return new ValidateRoutesStep()
+    .run({ routes, userPublicKey, routing: {}, ...extra } as StepContext)
+    .catch((e) => e);
+}
+
+describe("ValidateRoutesStep", () => {
+  it("reports every issue of every route at once", async () => {
+    const err = await run([
+      ok,
+      { ...ok, outputMint: SOL, slippageBps: 20_000 },
+      { ...ok, inputMint: "not-a-mint", amount: "0" },
+    ]);
+
+    expect(err).toBeInstanceOf(RouteValidationError);
+    expect(err).toMatchObject({ code: "INVALID_ROUTE", routeIndex: 1 });
+    expect(err.issues.map((i: { index: number; field: string }) => [i.index, i.field])).toEqual([
+      [1, "outputMint"],
+      [1, "slippageBps"],
+      [2, "inputMint"],
+      [2, "amount"],
+    ]);
+    expect(err.message).toContain("order[2] amount: must be greater than zero");
+  });
+
+  it("checks amount options", () => {
+    const fields = (r: Partial<MultiRouteInput>) => validateRoute({ ...ok, amount: undefined, ...r }).map(([f]) => f);
+
+    expect(fields({})).toEqual(["amount"]);
+    expect(fields({ amount: "1", uiAmount: "1" })).toEqual(["amount"]);
+    expect(fields({ uiAmount: "0.000" })).toEqual(["uiAmount"]);
+    expect(fields({ uiAmount: "0.0000001" })).toEqual([]);
+    expect(fields({ side: "sell", percent: 150 })).toEqual(["percent"]);
+    expect(fields({ side: "sell", percent: 50, swapMode: "ExactOut" })).toEqual(["percent"]);
+    expect(fields({ all: true })).toEqual(["all"]);
+    expect(fields({ side: "sell", all: true })).toEqual([]);
+  });
+
+  it("checks routing options", async () => {
+    expect(validateRoute({ ...ok, maxAccounts: 0, dexes: [""] }).map(([f]) => f)).toEqual(["maxAccounts", "dexes"]);
+    expect(validateRoute({ ...ok, maxAccounts: 20, excludeDexes: ["Orca V2"], onlyDirectRoutes: true })).toEqual([]);
+    expect(await run([ok], user, { routing: { maxAccounts: 1.5 } })).toMatchObject({ code: "INVALID_PARAMS" });
+  });
+
+  it("checks platform fees", async () => {
+    const fields = (platformFee: MultiRouteInput["platformFee"]) => validateRoute({ ...ok, platformFee }).map(([f]) => f);
+
+    expect(fields({ feeBps: 20, feeAccount: user })).toEqual([]);
+    expect(fields({ feeBps: 20, feeAccount: { [MINT_A]: user } })).toEqual([]);
+    expect(fields({ feeBps: 10_001, feeAccount: { [MINT_A]: "nope" } })).toEqual([
+      "platformFee.feeBps",
+      "platformFee.feeAccount",
+    ]);
+    expect(await run([ok], user, { platformFee: { feeBps: 0.5, feeAccount: user } })).toMatchObject({
+      code: "INVALID_PARAMS",
+    });
+  });
+
+  it("checks destinations", () => {
+    const fields = (r: Partial<MultiRouteInput>) => validateRoute({ ...ok, ...r }).map(([f]) => f);
+
+    expect(fields({ destination: user })).toEqual([]);
+    expect(fields({ destinationTokenAccount: "nope" })).toEqual(["destinationTokenAccount"]);
+    expect(fields({ destination: user, destinationTokenAccount: user })).toEqual(["destination"]);
+  });
+
+  it("checks the priority fee strategy", async () => {
+    const check = (priorityFee: unknown) => run([ok], user, { priorityFee } as Partial<StepContext>);
+
+    expect(await check({ mode: "fixed", microLamports: 10_000n })).toBeUndefined();
+    expect(await check({ mode: "percentile", percentile: 75, maxMicroLamports: 2n ** 64n - 1n })).toBeUndefined();
+    expect(await check({ mode: "fixed", microLamports: -1 })).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await check({ mode: "fixed", microLamports: 2n ** 64n })).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await check({ mode: "cap", maxLamports: 0.5 })).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await check({ mode: "percentile", percentile: 101 })).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await check({ mode: "percentile", percentile: NaN })).toMatchObject({ code: "INVALID_PARAMS" });
+    const err = await check({ mode: "percentile", percentile: 50, minMicroLamports: 10, maxMicroLamports: 5 });
+    expect(err.message).toContain("priorityFee.minMicroLamports: above maxMicroLamports");
+  });
+
+  it("checks the compute unit limit strategy", async () => {
+    const check = (computeUnitLimit: unknown) => run([ok], user, { computeUnitLimit } as Partial<StepContext>);
+
+    expect(await check({ mode: "fixed", units: 1_400_000 })).toBeUndefined();
+    expect(await check({ mode: "simulate", margin: 1.2 })).toBeUndefined();
+    expect(await check({ mode: "fixed", units: 1_400_001 })).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await check({ mode: "fixed", units: -1 })).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await check({ mode: "fixed", units: 2.5 })).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await check({ mode: "simulate", margin: 0 })).toMatchObject({ code: "INVALID_PARAMS" });
+  });
+
+  it("rejects an invalid wallet or an empty route list", async () => {
+    expect(await run([ok], "abc")).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await run([])).toMatchObject({ code: "INVALID_PARAMS" });
+    expect(await run([ok])).toBeUndefined();
+  });
+});